@@ -0,0 +1,171 @@
+/**
+ * Headless bot-vs-bot tournaments.
+ *
+ *   npm run simulate -- --strategies easy,normal,hard --games 500 --seed 42 --rules house --out results/run
+ *
+ * Every pair of strategies (any registered bot name) plays `--games` games
+ * head to head, alternating who sits first. `--rules` takes a preset id or a path to a RuleSet JSON file.
+ */
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { parseArgs } from 'node:util';
+import { getBot, hasBot, listBots } from '../src/game/bots';
+import { mixSeed, randomSeed } from '../src/game/deck';
+import { RULE_PRESETS, sanitizeRules } from '../src/game/rules';
+import { playGame, wilsonInterval } from '../src/game/simulate';
+import type { GameRecord } from '../src/game/simulate';
+import type { RuleSet } from '../src/game/types';
+
+interface MatchupResult {
+  a: string;
+  b: string;
+  games: number;
+  winsA: number;
+  winsB: number;
+  unfinished: number;
+  winRateA: number;
+  ciLow: number;
+  ciHigh: number;
+  avgTurns: number;
+  avgEightsA: number;
+  avgEightsB: number;
+  avgWildsA: number;
+  avgWildsB: number;
+  deckRanOutRate: number;
+}
+
+const { values } = parseArgs({
+  options: {
+    strategies: { type: 'string', default: 'easy,normal,hard' },
+    games: { type: 'string', default: '200' },
+    seed: { type: 'string' },
+    rules: { type: 'string', default: 'classic' },
+    out: { type: 'string' },
+  },
+});
+
+/** A preset id, or a rule-set file; unknown or out-of-range rules fall back to classic, as on the server. */
+const loadRules = (spec: string): RuleSet => {
+  const preset = RULE_PRESETS.find(p => p.id === spec);
+  if (preset) return preset.rules;
+  try {
+    return sanitizeRules(JSON.parse(readFileSync(spec, 'utf8')));
+  } catch {
+    console.error(`--rules must be ${RULE_PRESETS.map(p => p.id).join(', ')} or a readable rule-set JSON file, not "${spec}".`);
+    process.exit(1);
+  }
+};
+
+const names = values.strategies.split(',').map(s => s.trim()).filter(Boolean);
+for (const name of names) {
+  if (!hasBot(name)) {
+    console.error(`Unknown strategy "${name}". Known: ${listBots().map(b => b.name).join(', ')}`);
+    process.exit(1);
+  }
+}
+if (names.length < 2) {
+  console.error('Need at least two strategies.');
+  process.exit(1);
+}
+
+const games = Number(values.games);
+if (!Number.isInteger(games) || games < 1) {
+  console.error(`--games must be a whole number of at least 1, not "${values.games}".`);
+  process.exit(1);
+}
+if (values.seed !== undefined && !Number.isInteger(Number(values.seed))) {
+  console.error(`--seed must be a whole number, not "${values.seed}".`);
+  process.exit(1);
+}
+const seed = values.seed !== undefined ? Number(values.seed) >>> 0 : randomSeed();
+const rules = loadRules(values.rules);
+
+const summarize = (a: string, b: string, records: { record: GameRecord; seatA: number }[]): MatchupResult => {
+  const winsA = records.filter(r => r.record.winner === r.seatA).length;
+  const unfinished = records.filter(r => r.record.winner === null).length;
+  const [ciLow, ciHigh] = wilsonInterval(winsA, records.length);
+  const mean = (f: (r: { record: GameRecord; seatA: number }) => number) =>
+    records.reduce((sum, r) => sum + f(r), 0) / records.length;
+  return {
+    a,
+    b,
+    games: records.length,
+    winsA,
+    winsB: records.length - winsA - unfinished,
+    unfinished,
+    winRateA: winsA / records.length,
+    ciLow,
+    ciHigh,
+    avgTurns: mean(r => r.record.turns),
+    avgEightsA: mean(r => r.record.eightsPlayed[r.seatA]),
+    avgEightsB: mean(r => r.record.eightsPlayed[1 - r.seatA]),
+    avgWildsA: mean(r => r.record.wildsPlayed[r.seatA]),
+    avgWildsB: mean(r => r.record.wildsPlayed[1 - r.seatA]),
+    deckRanOutRate: mean(r => (r.record.deckRanOut ? 1 : 0)),
+  };
+};
+
+const results: MatchupResult[] = [];
+let pairIndex = 0;
+for (let i = 0; i < names.length; i++) {
+  for (let j = i + 1; j < names.length; j++) {
+    const a = names[i];
+    const b = names[j];
+    const records: { record: GameRecord; seatA: number }[] = [];
+    for (let g = 0; g < games; g++) {
+      const seatA = g % 2;
+      const lineup = seatA === 0 ? [a, b] : [b, a];
+      const record = playGame(
+        mixSeed(seed, pairIndex, g),
+        rules,
+        lineup.map(getBot),
+      );
+      records.push({ record, seatA });
+    }
+    results.push(summarize(a, b, records));
+    pairIndex++;
+  }
+}
+
+// --- Report ---
+
+const pct = (x: number) => `${(x * 100).toFixed(1)}%`;
+
+console.log(`Seed ${seed}, ${games} games per matchup, rules: ${values.rules}\n`);
+for (const r of results) {
+  console.log(`${r.a} vs ${r.b}`);
+  console.log(`  ${r.a} win rate  ${pct(r.winRateA)}  (95% CI ${pct(r.ciLow)}-${pct(r.ciHigh)})  ${r.winsA}-${r.winsB}, ${r.unfinished} unfinished`);
+  console.log(`  avg length      ${r.avgTurns.toFixed(1)} turns`);
+  console.log(`  8s per game     ${r.a} ${r.avgEightsA.toFixed(2)}, ${r.b} ${r.avgEightsB.toFixed(2)}`);
+  console.log(`  wilds per game  ${r.a} ${r.avgWildsA.toFixed(2)}, ${r.b} ${r.avgWildsB.toFixed(2)}`);
+  console.log(`  deck ran out    ${pct(r.deckRanOutRate)}`);
+}
+
+const standings = names.map((name) => {
+  let wins = 0;
+  let played = 0;
+  for (const r of results) {
+    if (r.a === name) { wins += r.winsA; played += r.games; }
+    if (r.b === name) { wins += r.winsB; played += r.games; }
+  }
+  return { name, wins, played };
+}).sort((x, y) => y.wins / y.played - x.wins / x.played);
+
+console.log('\nStandings');
+for (const s of standings) {
+  const [low, high] = wilsonInterval(s.wins, s.played);
+  console.log(`  ${s.name.padEnd(10)} ${pct(s.wins / s.played)}  (95% CI ${pct(low)}-${pct(high)})`);
+}
+
+if (values.out) {
+  mkdirSync(dirname(values.out), { recursive: true });
+  writeFileSync(`${values.out}.json`, JSON.stringify({ seed, games, rules, results, standings }, null, 2));
+
+  const columns = Object.keys(results[0]) as (keyof MatchupResult)[];
+  const csv = [
+    columns.join(','),
+    ...results.map(r => columns.map(c => r[c]).join(',')),
+  ].join('\n');
+  writeFileSync(`${values.out}.csv`, `${csv}\n`);
+  console.log(`\nWrote ${values.out}.json and ${values.out}.csv`);
+}
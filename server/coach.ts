@@ -0,0 +1,185 @@
+import { GoogleGenAI } from '@google/genai';
+import { Router } from 'express';
+import type { SeatView } from '../src/game/bot';
+import { SUITS, isJoker, isRank } from '../src/game/deck';
+import { describeMove, heuristicAdvice, heuristicReview, isLegalAdvice, transcript } from '../src/game/coach';
+import type { Advice, GameReview } from '../src/game/coach';
+import { apiError } from '../src/game/protocol';
+import { replayStates } from '../src/game/replay';
+import type { GameLog } from '../src/game/replay';
+import { describeRules, sanitizeRules } from '../src/game/rules';
+import { MAX_SEATS, MIN_SEATS } from '../src/game/seats';
+import type { SeatConfig } from '../src/game/seats';
+import type { CardData } from '../src/game/types';
+import { isLanguage, msg } from '../src/i18n';
+import type { Language } from '../src/i18n';
+
+export const GEMINI_MODEL = 'gemini-2.5-flash';
+
+/** Where coaching comes from. The key for a remote model stays on the server. */
+export interface CoachProvider {
+  name: string;
+  /** `language` is the player's, for free text; messages are translated on the client. */
+  suggestMove(view: SeatView, language: Language): Promise<Advice>;
+  reviewGame(log: GameLog, seats: SeatConfig[], language: Language): Promise<GameReview>;
+}
+
+/** The built-in heuristic; needs no key or network, so tests and offline play use it. */
+export const stubCoach: CoachProvider = {
+  name: 'heuristic',
+  suggestMove: async (view) => heuristicAdvice(view),
+  reviewGame: async (log, seats) => heuristicReview(log, seats),
+};
+
+// --- Gemini ---
+
+/** How the prompts ask for a reply in the player's language. */
+const LANGUAGE_NAMES: Record<Language, string> = { en: 'English', 'zh-CN': 'Simplified Chinese' };
+
+const cardName = (card: CardData) => `${isJoker(card) ? 'joker' : `${card.rank} of ${card.suit}`} (id ${card.id})`;
+
+/** Only what the seat can see: its own hand, the pile and the other hands' sizes. */
+const describeView = (view: SeatView): string => [
+  `House rules: ${describeRules(view.rules).join(', ') || 'none; only 8s are wild'}.`,
+  `Your hand: ${view.hand.map(cardName).join(', ')}.`,
+  `Top of the discard pile: ${cardName(view.topDiscard)}.`,
+  view.activeSuit ? `A wild card named ${view.activeSuit}; that suit must be followed.` : '',
+  `Opponents' card counts: ${view.handSizes.map((size, seat) => (seat === view.seat ? null : size)).filter(n => n !== null).join(', ')}.`,
+  `Cards left in the deck: ${view.deckSize}.`,
+  view.pendingDraw > 0 ? `You must draw ${view.pendingDraw} unless you stack a 2.` : '',
+  view.phase === 'choosingSuit' ? 'You just played a wild card and must name a suit.' : '',
+  `Legal plays: ${view.playable.map(cardName).join(', ') || 'none'}. You ${view.canDraw ? 'may' : 'may not'} draw and ${view.canPass ? 'may' : 'may not'} pass.`,
+].filter(Boolean).join('\n');
+
+const MOVE_SCHEMA = {
+  type: 'object',
+  properties: {
+    type: { type: 'string', enum: ['play', 'draw', 'pass', 'chooseSuit'] },
+    cardId: { type: 'string', description: 'For play: the id of the card.' },
+    suit: { type: 'string', enum: ['hearts', 'diamonds', 'clubs', 'spades'], description: 'For a wild play or chooseSuit.' },
+    reasoning: { type: 'string', description: 'Two or three sentences for the player.' },
+  },
+  required: ['type', 'reasoning'],
+};
+
+export const createGeminiCoach = (apiKey: string, model = GEMINI_MODEL): CoachProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    name: 'gemini',
+    suggestMove: async (view, language) => {
+      const response = await ai.models.generateContent({
+        model,
+        contents: [
+          'You are coaching a player in Crazy Eights. Suggest their best move and explain why.',
+          `Write the reasoning in ${LANGUAGE_NAMES[language]}.`,
+          '',
+          describeView(view),
+        ].join('\n'),
+        config: { responseMimeType: 'application/json', responseJsonSchema: MOVE_SCHEMA },
+      });
+      const { reasoning, ...move } = JSON.parse(response.text ?? '{}');
+      // A model can still name a card it does not hold; fall back rather than mislead.
+      if (!isLegalAdvice(move, view)) return heuristicAdvice(view);
+      return { move, reasoning: [describeMove(move, view), msg('coach.modelText', { text: reasoning })], source: 'gemini' };
+    },
+    reviewGame: async (log, seats, language) => {
+      const response = await ai.models.generateContent({
+        model,
+        contents: [
+          `Review this finished Crazy Eights game for ${seats[0].name} in under 150 words.`,
+          'Point out the two or three turns that decided it and what could have been played instead.',
+          `Write the review in ${LANGUAGE_NAMES[language]}.`,
+          `House rules: ${describeRules(log.rules).join(', ') || 'none; only 8s are wild'}.`,
+          '',
+          transcript(log, seats),
+        ].join('\n'),
+      });
+      const lines = (response.text ?? '').split('\n');
+      return { review: lines.map(text => msg('coach.modelText', { text })), source: 'gemini' };
+    },
+  };
+};
+
+// --- Routes ---
+
+const isCard = (value: unknown): value is CardData => {
+  const card = value as Record<string, unknown> | null;
+  return typeof card?.id === 'string' && SUITS.includes(card.suit as never) && isRank(card.rank);
+};
+
+const isCardList = (value: unknown): value is CardData[] => Array.isArray(value) && value.every(isCard);
+
+/** The parts of a `SeatView` the coaches read; the rules are checked separately with `sanitizeRules`. */
+const isSeatView = (body: unknown): body is SeatView => {
+  if (typeof body !== 'object' || body === null) return false;
+  const view = body as Record<string, unknown>;
+  const { handSizes, shortSuits } = view;
+  if (!isCardList(view.hand) || !isCardList(view.playable) || !isCardList(view.discardPile) || !isCard(view.topDiscard)) return false;
+  if (!Array.isArray(handSizes) || !handSizes.every(size => Number.isInteger(size))) return false;
+  if (!Array.isArray(shortSuits) || !shortSuits.every(suits => Array.isArray(suits))) return false;
+  if (view.activeSuit !== null && !SUITS.includes(view.activeSuit as never)) return false;
+  if (!['playing', 'choosingSuit'].includes(view.phase as never)) return false;
+  return ['seat', 'deckSize', 'pendingDraw', 'turnCount'].every(key => Number.isInteger(view[key]))
+    && ['hasDrawn', 'canDraw', 'canPass'].every(key => typeof view[key] === 'boolean');
+};
+
+/**
+ * A log with a seat count the engine accepts and sanitized rules, replayed in
+ * full. Null if any of that fails, whatever the error, so a bad request can
+ * never escape an async route and take the server down.
+ */
+const parseLog = (value: unknown): GameLog | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const body = value as Record<string, unknown>;
+  const { seatCount } = body;
+  if (!Number.isInteger(seatCount) || (seatCount as number) < MIN_SEATS || (seatCount as number) > MAX_SEATS) return null;
+  if (typeof body.seed !== 'number' || !Array.isArray(body.actions)) return null;
+  const log = { ...body, rules: sanitizeRules(body.rules) } as unknown as GameLog;
+  try {
+    replayStates(log);
+  } catch {
+    return null;
+  }
+  return log;
+};
+
+/** The language the player asked in; older clients send none and get English. */
+const requestLanguage = (value: unknown): Language => (isLanguage(value) ? value : 'en');
+
+/** `/api/coach`: move suggestions and post-game reviews from `provider`. */
+export const createCoachRouter = (provider: CoachProvider) => {
+  const router = Router();
+
+  router.get('/coach', (_req, res) => {
+    res.json({ provider: provider.name });
+  });
+
+  router.post('/coach/advice', async (req, res) => {
+    if (!isSeatView(req.body?.view)) return res.status(400).json(apiError('NOT_A_SEAT_VIEW', 'That is not a seat view.'));
+    try {
+      const view: SeatView = { ...req.body.view, rules: sanitizeRules(req.body.view.rules) };
+      res.json(await provider.suggestMove(view, requestLanguage(req.body.language)));
+    } catch (error) {
+      console.error(error);
+      res.status(502).json(apiError('COACH_UNAVAILABLE', 'The coach is unavailable right now.'));
+    }
+  });
+
+  router.post('/coach/review', async (req, res) => {
+    const { seats, language } = req.body ?? {};
+    const log = parseLog(req.body?.log);
+    if (!log) return res.status(400).json(apiError('NOT_A_GAME_LOG', 'That is not a game log.'));
+    if (!Array.isArray(seats) || seats.length !== log.seatCount || !seats.every(seat => typeof seat?.name === 'string')) {
+      return res.status(400).json(apiError('SEATS_MISMATCH', 'The seats do not match the game.'));
+    }
+    try {
+      res.json(await provider.reviewGame(log, seats, requestLanguage(language)));
+    } catch (error) {
+      console.error(error);
+      res.status(502).json(apiError('COACH_UNAVAILABLE', 'The coach is unavailable right now.'));
+    }
+  });
+
+  return router;
+};
@@ -0,0 +1,62 @@
+import { Router } from 'express';
+import { compareScores, dailyKey, isDailyKey, scoreDailyLog } from '../src/game/daily';
+import type { DailyBoard } from '../src/game/daily';
+import { apiError } from '../src/game/protocol';
+import { ReplayError } from '../src/game/replay';
+import type { GameDatabase } from './db';
+
+/**
+ * `/api/daily`: the daily challenge leaderboard. Only today's challenge can
+ * be started for the board, once per profile; submitted games are replayed
+ * and scored here rather than trusted.
+ */
+export const createDailyRouter = (store: GameDatabase) => {
+  const router = Router();
+
+  router.param('date', (req, res, next, value) => {
+    if (!isDailyKey(value)) return res.status(400).json(apiError('BAD_DATE', 'Dates look like 2025-01-31.'));
+    next();
+  });
+
+  router.get('/daily/:date', (req, res) => {
+    const { date } = req.params;
+    const profileId = Number(req.query.profileId);
+    const board: DailyBoard = {
+      date,
+      leaderboard: store.leaderboard(date).sort(compareScores),
+      attempt: Number.isInteger(profileId) ? store.getAttempt(profileId, date) : null,
+    };
+    res.json(board);
+  });
+
+  router.post('/daily/:date/attempts', (req, res) => {
+    const { date } = req.params;
+    const profile = store.getProfile(Number(req.body?.profileId));
+    if (!profile) return res.status(404).json(apiError('NO_PROFILE', 'No such profile.'));
+    if (date !== dailyKey()) return res.status(409).json(apiError('NOT_TODAY', 'Only today\'s challenge counts for the leaderboard.'));
+    if (!store.startAttempt(profile.id, date)) {
+      return res.status(409).json(apiError('ALREADY_PLAYED', `${profile.name} has already played today's challenge.`, { name: profile.name }));
+    }
+    res.status(201).json(store.getAttempt(profile.id, date));
+  });
+
+  router.post('/daily/:date/attempts/:profileId', (req, res) => {
+    const { date } = req.params;
+    const profileId = Number(req.params.profileId);
+    const attempt = store.getAttempt(profileId, date);
+    if (!attempt) return res.status(404).json(apiError('NOT_STARTED', 'That challenge was never started.'));
+    if (attempt.score) return res.status(409).json(apiError('ALREADY_SUBMITTED', 'That attempt has already been submitted.'));
+
+    let score;
+    try {
+      score = scoreDailyLog(req.body?.log, date);
+    } catch (error) {
+      if (!(error instanceof ReplayError) && !(error instanceof TypeError)) throw error;
+      return res.status(400).json(apiError('NOT_A_GAME_LOG', error instanceof ReplayError ? error.message : 'That is not a game log.'));
+    }
+    store.finishAttempt(profileId, date, score);
+    res.json(store.getAttempt(profileId, date));
+  });
+
+  return router;
+};
@@ -0,0 +1,182 @@
+import { mkdirSync } from 'node:fs';
+import path from 'node:path';
+import Database from 'better-sqlite3';
+import type { DailyAttempt, DailyScore, LeaderboardEntry } from '../src/game/daily';
+import type { GameSummary, HistoryEntry, Profile } from '../src/game/history';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS profiles (
+    id INTEGER PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+
+  CREATE TABLE IF NOT EXISTS games (
+    id INTEGER PRIMARY KEY,
+    profile_id INTEGER NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    seed INTEGER NOT NULL,
+    rules TEXT NOT NULL,
+    opponents TEXT NOT NULL,
+    winner INTEGER NOT NULL,
+    turns INTEGER NOT NULL,
+    cards_left TEXT NOT NULL,
+    finishing_card TEXT NOT NULL,
+    assisted INTEGER NOT NULL DEFAULT 0,
+    played_at TEXT NOT NULL DEFAULT (datetime('now')),
+    UNIQUE (profile_id, seed)
+  );
+
+  -- A row is written when a ranked daily attempt starts, so abandoning it still uses it up.
+  CREATE TABLE IF NOT EXISTS daily_attempts (
+    profile_id INTEGER NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    date TEXT NOT NULL,
+    started_at TEXT NOT NULL DEFAULT (datetime('now')),
+    finished_at TEXT,
+    won INTEGER,
+    turns INTEGER,
+    draws INTEGER,
+    PRIMARY KEY (profile_id, date)
+  );
+`;
+
+interface ProfileRow {
+  id: number;
+  name: string;
+  created_at: string;
+}
+
+interface GameRow {
+  id: number;
+  profile_id: number;
+  seed: number;
+  rules: string;
+  opponents: string;
+  winner: number;
+  turns: number;
+  cards_left: string;
+  finishing_card: string;
+  assisted: number;
+  played_at: string;
+}
+
+interface AttemptRow {
+  profile_id: number;
+  name: string;
+  date: string;
+  started_at: string;
+  finished_at: string | null;
+  won: number | null;
+  turns: number | null;
+  draws: number | null;
+}
+
+const toProfile = (row: ProfileRow): Profile => ({ id: row.id, name: row.name, createdAt: row.created_at });
+
+const toEntry = (row: GameRow): HistoryEntry => ({
+  id: row.id,
+  profileId: row.profile_id,
+  seed: row.seed,
+  rules: JSON.parse(row.rules),
+  opponents: JSON.parse(row.opponents),
+  winner: row.winner,
+  turns: row.turns,
+  cardsLeft: JSON.parse(row.cards_left),
+  finishingCard: JSON.parse(row.finishing_card),
+  assisted: row.assisted === 1,
+  playedAt: row.played_at,
+});
+
+const toLeaderboardEntry = (row: AttemptRow): LeaderboardEntry => ({
+  profileId: row.profile_id,
+  name: row.name,
+  won: row.won === 1,
+  turns: row.turns!,
+  draws: row.draws!,
+  finishedAt: row.finished_at!,
+});
+
+/** Opens (and if needed creates) the database holding profiles, finished games and daily challenge attempts. */
+export const openDatabase = (file: string) => {
+  if (file !== ':memory:') mkdirSync(path.dirname(file), { recursive: true });
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  db.exec(SCHEMA);
+  // Databases from before assisted games were tracked.
+  const gameColumns = db.prepare<[], { name: string }>('PRAGMA table_info(games)').all();
+  if (!gameColumns.some(column => column.name === 'assisted')) {
+    db.exec('ALTER TABLE games ADD COLUMN assisted INTEGER NOT NULL DEFAULT 0');
+  }
+
+  const statements = {
+    listProfiles: db.prepare<[], ProfileRow>('SELECT * FROM profiles ORDER BY name'),
+    getProfile: db.prepare<[number], ProfileRow>('SELECT * FROM profiles WHERE id = ?'),
+    findProfile: db.prepare<[string], ProfileRow>('SELECT * FROM profiles WHERE name = ?'),
+    insertProfile: db.prepare<[string]>('INSERT INTO profiles (name) VALUES (?)'),
+    insertGame: db.prepare(`
+      INSERT OR IGNORE INTO games (profile_id, seed, rules, opponents, winner, turns, cards_left, finishing_card, assisted)
+      VALUES (@profileId, @seed, @rules, @opponents, @winner, @turns, @cardsLeft, @finishingCard, @assisted)
+    `),
+    listGames: db.prepare<[number], GameRow>('SELECT * FROM games WHERE profile_id = ? ORDER BY played_at, id'),
+    getAttempt: db.prepare<[number, string], AttemptRow>(`
+      SELECT a.*, p.name FROM daily_attempts a JOIN profiles p ON p.id = a.profile_id
+      WHERE a.profile_id = ? AND a.date = ?
+    `),
+    startAttempt: db.prepare<[number, string]>('INSERT OR IGNORE INTO daily_attempts (profile_id, date) VALUES (?, ?)'),
+    finishAttempt: db.prepare(`
+      UPDATE daily_attempts SET finished_at = datetime('now'), won = @won, turns = @turns, draws = @draws
+      WHERE profile_id = @profileId AND date = @date AND finished_at IS NULL
+    `),
+    leaderboard: db.prepare<[string], AttemptRow>(`
+      SELECT a.*, p.name FROM daily_attempts a JOIN profiles p ON p.id = a.profile_id
+      WHERE a.date = ? AND a.finished_at IS NOT NULL
+    `),
+  };
+
+  return {
+    db,
+    listProfiles: (): Profile[] => statements.listProfiles.all().map(toProfile),
+    getProfile: (id: number): Profile | null => {
+      const row = statements.getProfile.get(id);
+      return row ? toProfile(row) : null;
+    },
+    /** Returns the existing profile when the name is already taken. */
+    createProfile: (name: string): Profile => {
+      const existing = statements.findProfile.get(name);
+      if (existing) return toProfile(existing);
+      const { lastInsertRowid } = statements.insertProfile.run(name);
+      return toProfile(statements.getProfile.get(Number(lastInsertRowid))!);
+    },
+    /** Recording the same game twice is a no-op; returns whether it was new. */
+    recordGame: (profileId: number, game: GameSummary): boolean =>
+      statements.insertGame.run({
+        profileId,
+        seed: game.seed,
+        rules: JSON.stringify(game.rules),
+        opponents: JSON.stringify(game.opponents),
+        winner: game.winner,
+        turns: game.turns,
+        cardsLeft: JSON.stringify(game.cardsLeft),
+        finishingCard: JSON.stringify(game.finishingCard),
+        assisted: Number(game.assisted),
+      }).changes > 0,
+    /** Oldest first. */
+    listGames: (profileId: number): HistoryEntry[] => statements.listGames.all(profileId).map(toEntry),
+
+    getAttempt: (profileId: number, date: string): DailyAttempt | null => {
+      const row = statements.getAttempt.get(profileId, date);
+      if (!row) return null;
+      return { startedAt: row.started_at, score: row.finished_at ? toLeaderboardEntry(row) : null };
+    },
+    /** False if the profile already used its attempt for that day. */
+    startAttempt: (profileId: number, date: string): boolean =>
+      statements.startAttempt.run(profileId, date).changes > 0,
+    /** False unless there is a started, unfinished attempt to complete. */
+    finishAttempt: (profileId: number, date: string, score: DailyScore): boolean =>
+      statements.finishAttempt.run({ profileId, date, won: Number(score.won), turns: score.turns, draws: score.draws }).changes > 0,
+    /** Unsorted; see `compareScores`. */
+    leaderboard: (date: string): LeaderboardEntry[] => statements.leaderboard.all(date).map(toLeaderboardEntry),
+  };
+};
+
+export type GameDatabase = ReturnType<typeof openDatabase>;
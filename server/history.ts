@@ -0,0 +1,88 @@
+import { Router } from 'express';
+import type { Response } from 'express';
+import { SUITS, isRank } from '../src/game/deck';
+import { computeStats, historyCsv } from '../src/game/history';
+import type { GameSummary } from '../src/game/history';
+import { apiError } from '../src/game/protocol';
+import type { ApiErrorCode } from '../src/game/protocol';
+import { sanitizeRules } from '../src/game/rules';
+import { MAX_SEATS, MIN_SEATS } from '../src/game/seats';
+import type { GameDatabase } from './db';
+
+const MAX_NAME_LENGTH = 24;
+
+const badRequest = (res: Response, code: ApiErrorCode, error: string) => res.status(400).json(apiError(code, error));
+
+const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+/** Checks a posted game summary field by field; returns null if anything is off. */
+const parseSummary = (body: unknown): GameSummary | null => {
+  if (typeof body !== 'object' || body === null) return null;
+  const game = body as Record<string, unknown>;
+  const { opponents, cardsLeft, finishingCard } = game;
+  if (!isCount(game.seed) || !isCount(game.turns) || !isCount(game.winner)) return null;
+  if (!Array.isArray(opponents) || opponents.length < MIN_SEATS - 1 || opponents.length > MAX_SEATS - 1) return null;
+  if (!opponents.every(o => typeof o?.name === 'string' && typeof o?.bot === 'string')) return null;
+  if (!Array.isArray(cardsLeft) || cardsLeft.length !== opponents.length + 1 || !cardsLeft.every(isCount)) return null;
+  if (game.winner as number > opponents.length || cardsLeft[game.winner as number] !== 0) return null;
+  const card = finishingCard as Record<string, unknown> | null;
+  if (typeof card?.id !== 'string' || !SUITS.includes(card.suit as never) || !isRank(card.rank)) return null;
+
+  return {
+    seed: game.seed as number,
+    rules: sanitizeRules(game.rules),
+    opponents: opponents.map(o => ({ name: o.name.slice(0, MAX_NAME_LENGTH), bot: o.bot.slice(0, MAX_NAME_LENGTH) })),
+    winner: game.winner as number,
+    turns: game.turns as number,
+    cardsLeft,
+    finishingCard: { id: card.id, suit: card.suit, rank: card.rank } as GameSummary['finishingCard'],
+    assisted: game.assisted === true,
+  };
+};
+
+/** `/api/profiles`: local player profiles, their finished games and statistics. */
+export const createHistoryRouter = (store: GameDatabase) => {
+  const router = Router();
+
+  router.get('/profiles', (_req, res) => {
+    res.json(store.listProfiles());
+  });
+
+  router.post('/profiles', (req, res) => {
+    const name = typeof req.body?.name === 'string' ? req.body.name.trim().slice(0, MAX_NAME_LENGTH) : '';
+    if (!name) return badRequest(res, 'NAME_REQUIRED', 'A profile needs a name.');
+    res.status(201).json(store.createProfile(name));
+  });
+
+  // Every route below acts on one existing profile.
+  router.param('profileId', (req, res, next, value) => {
+    const profile = store.getProfile(Number(value));
+    if (!profile) return res.status(404).json(apiError('NO_PROFILE', 'No such profile.'));
+    res.locals.profile = profile;
+    next();
+  });
+
+  router.get('/profiles/:profileId/games', (_req, res) => {
+    res.json(store.listGames(res.locals.profile.id));
+  });
+
+  router.post('/profiles/:profileId/games', (req, res) => {
+    const game = parseSummary(req.body);
+    if (!game) return badRequest(res, 'NOT_A_FINISHED_GAME', 'That is not a finished game.');
+    const created = store.recordGame(res.locals.profile.id, game);
+    res.status(created ? 201 : 200).json({ recorded: created });
+  });
+
+  router.get('/profiles/:profileId/stats', (_req, res) => {
+    res.json(computeStats(store.listGames(res.locals.profile.id)));
+  });
+
+  router.get('/profiles/:profileId/games.csv', (_req, res) => {
+    const { id, name } = res.locals.profile;
+    res.type('text/csv');
+    res.attachment(`crazy-eights-${name.replace(/[^\w-]+/g, '_')}.csv`);
+    res.send(historyCsv(store.listGames(id)));
+  });
+
+  return router;
+};
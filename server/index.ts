@@ -0,0 +1,46 @@
+import 'dotenv/config';
+import { createServer } from 'node:http';
+import path from 'node:path';
+import express from 'express';
+import { WebSocketServer } from 'ws';
+import { createCoachRouter, createGeminiCoach, stubCoach } from './coach';
+import { createDailyRouter } from './daily';
+import { openDatabase } from './db';
+import { createHistoryRouter } from './history';
+import { createRoomServer } from './rooms';
+
+const PORT = Number(process.env.PORT || process.env.SERVER_PORT) || 3001;
+const DIST_DIR = path.resolve(import.meta.dirname, '../dist');
+const DATABASE_PATH = process.env.DATABASE_PATH || path.resolve(import.meta.dirname, '../data/crazy-eights.db');
+
+const app = express();
+app.use(express.json());
+
+const roomServer = createRoomServer();
+const store = openDatabase(DATABASE_PATH);
+const coach = process.env.COACH_PROVIDER !== 'stub' && process.env.GEMINI_API_KEY
+  ? createGeminiCoach(process.env.GEMINI_API_KEY)
+  : stubCoach;
+
+app.get('/api/health', (_req, res) => {
+  res.json({ ok: true, rooms: roomServer.rooms.size });
+});
+
+app.use('/api', createHistoryRouter(store));
+app.use('/api', createDailyRouter(store));
+app.use('/api', createCoachRouter(coach));
+
+// In production the same process serves the built client.
+app.use(express.static(DIST_DIR));
+app.get(/^(?!\/api\/).*/, (_req, res) => {
+  res.sendFile(path.join(DIST_DIR, 'index.html'));
+});
+
+const server = createServer(app);
+const sockets = new WebSocketServer({ server, path: '/ws' });
+sockets.on('connection', roomServer.handleConnection);
+sockets.on('error', (error) => console.error(error));
+
+server.listen(PORT, () => {
+  console.log(`Crazy Eights server listening on http://localhost:${PORT} (coach: ${coach.name})`);
+});
@@ -0,0 +1,337 @@
+import { randomBytes } from 'node:crypto';
+import type { WebSocket } from 'ws';
+import { BotMoveError, moveToActions, runBotTurn, seatView } from '../src/game/bot';
+import { getBot } from '../src/game/bots';
+import { SUITS, randomSeed } from '../src/game/deck';
+import { engineErrorMsg, msg } from '../src/i18n';
+import type { Message, Params } from '../src/i18n';
+import { applyAction, createGame } from '../src/game/engine';
+import type { ClientMessage, PublicSeat, ServerErrorCode, ServerMessage } from '../src/game/protocol';
+import { DEFAULT_BOT, MAX_SEATS, MIN_SEATS } from '../src/game/seats';
+import type { Move } from '../src/game/bot';
+import { sanitizeRules } from '../src/game/rules';
+import type { EngineErrorCode, GameState, RuleSet } from '../src/game/types';
+
+/** Empty lobby seats are given to AI this long after the room opens. */
+export const FILL_TIMEOUT_MS = 60_000;
+/** A disconnected player's seat is played by AI after this long. */
+export const RECONNECT_TIMEOUT_MS = 30_000;
+/** Pause before an AI seat moves, so people can follow along. */
+export const AI_DELAY_MS = 1000;
+/** Rooms with nobody connected are dropped after this long. */
+export const ROOM_IDLE_MS = 10 * 60_000;
+
+/** No 0/O or 1/I, so codes survive being read aloud. */
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 5;
+
+interface Slot {
+  /** What the player typed, or a message for a name the server chose. */
+  name: string | Message;
+  kind: 'human' | 'ai';
+  token: string;
+  socket: WebSocket | null;
+  /** True once AI has taken over for a human who did not come back in time. */
+  aiCovering: boolean;
+  reconnectTimer: NodeJS.Timeout | null;
+}
+
+interface Room {
+  code: string;
+  rules: RuleSet;
+  slots: (Slot | null)[];
+  host: number;
+  game: GameState | null;
+  fillAt: number;
+  fillTimer: NodeJS.Timeout | null;
+  aiTimer: NodeJS.Timeout | null;
+  idleTimer: NodeJS.Timeout | null;
+}
+
+interface Connection {
+  room: Room | null;
+  seat: number;
+}
+
+const send = (socket: WebSocket | null, message: ServerMessage) => {
+  if (socket && socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const fail = (socket: WebSocket, code: ServerErrorCode | EngineErrorCode, message: string, params?: Params) =>
+  send(socket, { type: 'error', code, message, params });
+
+const MAX_NAME_LENGTH = 24;
+
+const playerName = (name: unknown): string | Message =>
+  String(name || '').slice(0, MAX_NAME_LENGTH) || msg('online.defaultName');
+
+const isSuit = (value: unknown) => SUITS.includes(value as never);
+
+/** Checks every field a move carries, so nothing malformed reaches the engine or the other clients. */
+const isValidMove = (move: unknown): move is Move => {
+  if (typeof move !== 'object' || move === null) return false;
+  const { type, cardId, suit } = move as Record<string, unknown>;
+  switch (type) {
+    case 'play': return typeof cardId === 'string' && (suit === undefined || isSuit(suit));
+    case 'chooseSuit': return isSuit(suit);
+    case 'draw':
+    case 'pass': return true;
+    default: return false;
+  }
+};
+
+/**
+ * Hosts any number of rooms. The server owns every game state; clients only
+ * send moves and receive their own seat's view after each change.
+ */
+export const createRoomServer = () => {
+  const rooms = new Map<string, Room>();
+  const connections = new Map<WebSocket, Connection>();
+
+  const newCode = (): string => {
+    let code = '';
+    do {
+      code = Array.from(randomBytes(CODE_LENGTH), b => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('');
+    } while (rooms.has(code));
+    return code;
+  };
+
+  const publicSeat = (slot: Slot): PublicSeat => ({
+    name: slot.name,
+    kind: slot.kind === 'ai' || slot.aiCovering ? 'ai' : 'human',
+    connected: slot.kind === 'ai' || slot.socket !== null,
+  });
+
+  const isAiControlled = (slot: Slot | null) => !slot || slot.kind === 'ai' || slot.aiCovering;
+
+  const broadcast = (room: Room) => {
+    room.slots.forEach((slot, seat) => {
+      if (!slot?.socket) return;
+      if (!room.game) {
+        send(slot.socket, {
+          type: 'lobby',
+          code: room.code,
+          seatCount: room.slots.length,
+          seats: room.slots.map(s => (s ? publicSeat(s) : null)),
+          fillAt: room.fillAt,
+        });
+        return;
+      }
+      send(slot.socket, {
+        type: 'state',
+        code: room.code,
+        seats: room.slots.map(s => publicSeat(s!)),
+        current: room.game.current,
+        winner: room.game.winner,
+        view: seatView(room.game, seat),
+      });
+    });
+  };
+
+  const closeRoom = (room: Room) => {
+    [room.fillTimer, room.aiTimer, room.idleTimer].forEach(t => t && clearTimeout(t));
+    room.slots.forEach(slot => slot?.reconnectTimer && clearTimeout(slot.reconnectTimer));
+    rooms.delete(room.code);
+  };
+
+  const checkIdle = (room: Room) => {
+    if (room.idleTimer) clearTimeout(room.idleTimer);
+    room.idleTimer = null;
+    if (room.slots.some(slot => slot?.socket)) return;
+    room.idleTimer = setTimeout(() => closeRoom(room), ROOM_IDLE_MS);
+  };
+
+  // --- AI turns ---
+
+  const scheduleAi = (room: Room) => {
+    if (room.aiTimer) clearTimeout(room.aiTimer);
+    room.aiTimer = null;
+    const game = room.game;
+    if (!game || game.phase === 'finished' || !isAiControlled(room.slots[game.current])) return;
+
+    room.aiTimer = setTimeout(() => {
+      room.aiTimer = null;
+      if (room.game !== game) return;
+      const seat = game.current;
+      try {
+        room.game = runBotTurn(game, seat, getBot(DEFAULT_BOT)).state;
+      } catch (error) {
+        if (!(error instanceof BotMoveError)) throw error;
+        console.error(error);
+        return;
+      }
+      broadcast(room);
+      scheduleAi(room);
+    }, AI_DELAY_MS);
+  };
+
+  // --- Lobby ---
+
+  const startGame = (room: Room) => {
+    if (room.game) return;
+    if (room.fillTimer) clearTimeout(room.fillTimer);
+    room.fillTimer = null;
+    let aiNumber = 0;
+    room.slots = room.slots.map(slot => slot ?? {
+      name: msg('seat.aiNumbered', { n: ++aiNumber }),
+      kind: 'ai',
+      token: '',
+      socket: null,
+      aiCovering: false,
+      reconnectTimer: null,
+    });
+    room.game = createGame(randomSeed(), room.rules, room.slots.length);
+    broadcast(room);
+    scheduleAi(room);
+  };
+
+  const takeSeat = (socket: WebSocket, room: Room, seat: number, name: string | Message) => {
+    const token = randomBytes(16).toString('hex');
+    room.slots[seat] = { name, kind: 'human', token, socket, aiCovering: false, reconnectTimer: null };
+    connections.set(socket, { room, seat });
+    send(socket, { type: 'joined', code: room.code, seat, token });
+    checkIdle(room);
+    if (room.slots.every(Boolean)) {
+      startGame(room);
+    } else {
+      broadcast(room);
+    }
+  };
+
+  const create = (socket: WebSocket, name: string | Message, seatCount: number, rules: RuleSet) => {
+    if (!Number.isInteger(seatCount) || seatCount < MIN_SEATS || seatCount > MAX_SEATS) {
+      return fail(socket, 'BAD_MESSAGE', `Rooms need ${MIN_SEATS}-${MAX_SEATS} seats.`);
+    }
+    const room: Room = {
+      code: newCode(),
+      rules,
+      slots: Array(seatCount).fill(null),
+      host: 0,
+      game: null,
+      fillAt: Date.now() + FILL_TIMEOUT_MS,
+      fillTimer: null,
+      aiTimer: null,
+      idleTimer: null,
+    };
+    room.fillTimer = setTimeout(() => startGame(room), FILL_TIMEOUT_MS);
+    rooms.set(room.code, room);
+    takeSeat(socket, room, 0, name);
+  };
+
+  const join = (socket: WebSocket, code: string, name: string | Message) => {
+    const room = rooms.get(code.toUpperCase());
+    if (!room) return fail(socket, 'ROOM_NOT_FOUND', `No room with code ${code}.`, { code });
+    if (room.game) return fail(socket, 'ALREADY_STARTED', 'That game has already started.');
+    const seat = room.slots.findIndex(slot => slot === null);
+    if (seat === -1) return fail(socket, 'ROOM_FULL', 'That room is full.');
+    takeSeat(socket, room, seat, name);
+  };
+
+  const rejoin = (socket: WebSocket, code: string, token: string) => {
+    const room = rooms.get(code.toUpperCase());
+    if (!room) return fail(socket, 'ROOM_NOT_FOUND', `No room with code ${code}.`, { code });
+    const seat = room.slots.findIndex(slot => slot?.kind === 'human' && slot.token === token);
+    if (seat === -1) return fail(socket, 'BAD_TOKEN', 'That seat is no longer yours.');
+
+    const slot = room.slots[seat]!;
+    if (slot.socket && slot.socket !== socket) slot.socket.close();
+    if (slot.reconnectTimer) clearTimeout(slot.reconnectTimer);
+    slot.reconnectTimer = null;
+    slot.socket = socket;
+    slot.aiCovering = false;
+    connections.set(socket, { room, seat });
+    send(socket, { type: 'joined', code: room.code, seat, token });
+    checkIdle(room);
+    broadcast(room);
+    scheduleAi(room);
+  };
+
+  // --- Play ---
+
+  const playMove = (socket: WebSocket, connection: Connection, move: Move) => {
+    const room = connection.room!;
+    if (!room.game) return fail(socket, 'ILLEGAL_MOVE', 'The game has not started yet.');
+    let next = room.game;
+    for (const action of moveToActions(move, connection.seat)) {
+      const result = applyAction(next, action);
+      if (result.ok === false) {
+        return fail(socket, result.error.code, result.error.message, engineErrorMsg(next, action, result.error.code).params);
+      }
+      next = result.state;
+    }
+    room.game = next;
+    broadcast(room);
+    scheduleAi(room);
+  };
+
+  const leaveSeat = (socket: WebSocket) => {
+    const connection = connections.get(socket);
+    connections.delete(socket);
+    const room = connection?.room;
+    if (!room) return;
+    const slot = room.slots[connection.seat];
+    if (!slot || slot.socket !== socket) return;
+
+    if (!room.game) {
+      // Nothing to protect before the deal; free the seat for someone else.
+      room.slots[connection.seat] = null;
+    } else {
+      slot.socket = null;
+      slot.reconnectTimer = setTimeout(() => {
+        slot.reconnectTimer = null;
+        slot.aiCovering = true;
+        broadcast(room);
+        scheduleAi(room);
+      }, RECONNECT_TIMEOUT_MS);
+    }
+    broadcast(room);
+    checkIdle(room);
+  };
+
+  // --- Socket entry points ---
+
+  const handleMessage = (socket: WebSocket, raw: string) => {
+    let message: ClientMessage;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      return fail(socket, 'BAD_MESSAGE', 'Messages must be JSON.');
+    }
+    const connection = connections.get(socket);
+
+    switch (message?.type) {
+      case 'create':
+        if (connection) leaveSeat(socket);
+        return create(socket, playerName(message.name), message.seatCount, sanitizeRules(message.rules));
+      case 'join':
+        if (connection) leaveSeat(socket);
+        return join(socket, String(message.code), playerName(message.name));
+      case 'rejoin':
+        return rejoin(socket, String(message.code), String(message.token));
+      case 'start':
+        if (!connection?.room) return fail(socket, 'NOT_IN_ROOM', 'Join a room first.');
+        if (connection.seat !== connection.room.host) return fail(socket, 'NOT_HOST', 'Only the host can start early.');
+        return startGame(connection.room);
+      case 'move':
+        if (!connection?.room) return fail(socket, 'NOT_IN_ROOM', 'Join a room first.');
+        if (!isValidMove(message.move)) return fail(socket, 'BAD_MESSAGE', 'Unknown or malformed move.');
+        return playMove(socket, connection, message.move);
+      case 'leave':
+        return leaveSeat(socket);
+      default:
+        return fail(socket, 'BAD_MESSAGE', 'Unknown message type.');
+    }
+  };
+
+  const handleConnection = (socket: WebSocket) => {
+    socket.on('message', data => handleMessage(socket, data.toString()));
+    socket.on('close', () => leaveSeat(socket));
+    // A malformed frame (e.g. invalid UTF-8) ends only this connection, not the process.
+    socket.on('error', (error) => {
+      console.error(error);
+      socket.close();
+    });
+  };
+
+  return { handleConnection, rooms };
+};
@@ -1,310 +1,624 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
+import type { PanInfo } from 'motion/react';
 import { 
-  Heart, 
-  Diamond, 
-  Club, 
-  Spade, 
   RotateCcw, 
   Trophy, 
   User, 
   Cpu,
   Info,
-  ChevronRight
+  ChevronRight,
+  BarChart3,
+  Lightbulb,
+  Undo2,
+  Eye,
+  EyeOff,
+  ScanEye
 } from 'lucide-react';
+import { BotMoveError, runBotTurn, seatView } from './game/bot';
+import { getBot, listBots } from './game/bots';
+import { randomSeed } from './game/deck';
+import {
+  applyAction,
+  canDraw,
+  canPass,
+  createGame,
+  drawableCount,
+  isPlayable,
+  playableCards,
+  topDiscard as getTopDiscard,
+} from './game/engine';
+import { createDailyGame, dailySeats } from './game/daily';
+import type { DailyRun } from './game/daily';
+import { explainMove, rankPlayable } from './game/hints';
+import type { Hint } from './game/hints';
+import { summarizeGame } from './game/history';
+import type { Profile } from './game/history';
+import { DEFAULT_SCORING, createMatch, matchWinner, recordHand } from './game/match';
+import type { MatchState, ScoringTable } from './game/match';
+import { appendActions, exportReplay, formatEntry, importReplay, replayStates, ReplayError, startLog, turnEntries, undoPoint } from './game/replay';
+import type { GameLog } from './game/replay';
+import { CLASSIC_RULES, describeRules } from './game/rules';
+import { toSave } from './game/save';
+import type { SavedGame } from './game/save';
+import type { Action, CardData, GameState, RuleSet, Suit } from './game/types';
+import { DEFAULT_BOT, HUMAN_SEAT, MAX_SEATS, MIN_SEATS, createBotSeats, createSeats } from './game/seats';
+import type { SeatConfig } from './game/seats';
+import Card, { SuitIcon } from './components/Card';
+import CoachPanel, { CoachReview } from './components/CoachPanel';
+import DeckStack from './components/DeckStack';
+import DailyChallenge from './components/DailyChallenge';
+import HandoffScreen from './components/HandoffScreen';
+import Announcer from './components/Announcer';
+import CardFlights from './components/CardFlights';
+import type { Announcement } from './components/Announcer';
+import OnlineGame from './components/OnlineGame';
+import OpponentSeat, { opponentLayout } from './components/OpponentSeat';
+import ProfilePicker from './components/ProfilePicker';
+import HistoryPanel from './components/HistoryPanel';
+import SettingsMenu from './components/SettingsMenu';
+import MatchSettings from './components/MatchSettings';
+import RulesPanel from './components/RulesPanel';
+import ReplayViewer from './components/ReplayViewer';
+import SuitSelector from './components/SuitSelector';
+import UpdatePrompt from './components/UpdatePrompt';
+import WatchPanel from './components/WatchPanel';
+import type { WatchEntry } from './components/WatchPanel';
+import Scoreboard from './components/Scoreboard';
+import StatsScreen from './components/StatsScreen';
+import { apiErrorMessage, recordGame, submitDailyAttempt } from './utils/api';
+import { downloadFile, pickTextFile } from './utils/files';
+import { HIGHLIGHT_MODES, loadHighlightMode, loadSavedGame, storeHighlightMode, storeProfileId, storeSavedGame } from './utils/storage';
+import type { HighlightMode } from './utils/storage';
+import { anchorRect, dealMoves, turnMoves, useCardFlights } from './hooks/useCardFlights';
+import { useFocusTrap } from './hooks/useFocusTrap';
+import { botDescription, botLabel, cardMsg, engineErrorMsg, msg, seatNames, suitMsg } from './i18n';
+import type { Message, Text } from './i18n';
+import { useI18n } from './i18n/I18nProvider';
 
 // --- Types & Constants ---
 
-type Suit = 'hearts' | 'diamonds' | 'clubs' | 'spades';
-type Rank = 'A' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9' | '10' | 'J' | 'Q' | 'K';
+/** The human seat when playing alone; pass-and-play adds more. */
+const HUMAN = 0;
+/** Opponent actions kept in the screen-reader log. */
+const SPOKEN_ACTIONS = 5;
+/** Pixels a card must be flicked upwards to play it without reaching the discard pile. */
+const SWIPE_DISTANCE = 80;
+/** Milliseconds an AI waits before moving, at normal pace. */
+const AI_DELAY = 1500;
+/** AI turns kept in the watch panel. */
+const WATCHED_TURNS = 50;
 
-interface CardData {
-  id: string;
-  suit: Suit;
-  rank: Rank;
-}
+export default function App() {
+  const { t, tx } = useI18n();
+  const [game, setGame] = useState<GameState | null>(null);
+  const [rules, setRules] = useState<RuleSet>(CLASSIC_RULES);
+  const [seatCount, setSeatCount] = useState(2);
+  const [seatBots, setSeatBots] = useState<string[]>(() => Array(MAX_SEATS - 1).fill(DEFAULT_BOT));
+  const [seats, setSeats] = useState<SeatConfig[]>(() => createSeats(2));
+  const [matchTarget, setMatchTarget] = useState(100);
+  const [scoring, setScoring] = useState<ScoringTable>(DEFAULT_SCORING);
+  const [match, setMatch] = useState<MatchState | null>(null);
+  const [log, setLog] = useState<GameLog | null>(null);
+  const [replay, setReplay] = useState<ReturnType<typeof importReplay> | null>(null);
+  const [importError, setImportError] = useState<Message | null>(null);
+  const [savedGame, setSavedGame] = useState<SavedGame | null>(null);
+  const [saveError, setSaveError] = useState<Message | null>(null);
+  const [online, setOnline] = useState(false);
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [showStats, setShowStats] = useState(false);
+  const [daily, setDaily] = useState<DailyRun | null>(null);
+  const [showDaily, setShowDaily] = useState(false);
+  const [dailyResult, setDailyResult] = useState<Message | null>(null);
+  const [assisted, setAssisted] = useState(false);
+  const [hints, setHints] = useState<Hint[] | null>(null);
+  const [highlight, setHighlight] = useState<HighlightMode>(loadHighlightMode);
+  const [lastHuman, setLastHuman] = useState(HUMAN);
+  const [revealedFor, setRevealedFor] = useState<number | null>(null);
+  const [message, setMessage] = useState<Text>(msg('status.welcome'));
+  const [spoken, setSpoken] = useState<Announcement[]>([]);
+  const [handFocus, setHandFocus] = useState(0);
+  const [watchPaused, setWatchPaused] = useState(false);
+  const [watchSpeed, setWatchSpeed] = useState(1);
+  const [watchFaceUp, setWatchFaceUp] = useState(false);
+  const [watched, setWatched] = useState<WatchEntry[]>([]);
+  const handRef = useRef<HTMLDivElement>(null);
+  /** The state the latest action started from, so a second click on a stale render is ignored. */
+  const gameRef = useRef<GameState | null>(null);
+  const { flights, flying, launch, land, isBusy } = useCardFlights();
 
-const SUITS: Suit[] = ['hearts', 'diamonds', 'clubs', 'spades'];
-const RANKS: Rank[] = ['A', '2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K'];
-
-const SUIT_ICONS = {
-  hearts: <Heart className="w-full h-full text-rose-500 fill-rose-500" />,
-  diamonds: <Diamond className="w-full h-full text-amber-500 fill-amber-500" />,
-  clubs: <Club className="w-full h-full text-emerald-600 fill-emerald-600" />,
-  spades: <Spade className="w-full h-full text-sky-700 fill-sky-700" />,
-};
-
-const SUIT_COLORS = {
-  hearts: 'text-rose-600',
-  diamonds: 'text-amber-600',
-  clubs: 'text-emerald-700',
-  spades: 'text-sky-800',
-};
-
-// --- Helper Functions ---
-
-const createDeck = (): CardData[] => {
-  const deck: CardData[] = [];
-  SUITS.forEach((suit) => {
-    RANKS.forEach((rank) => {
-      deck.push({ id: `${rank}-${suit}`, suit, rank });
-    });
-  });
-  return deck;
-};
-
-const shuffle = (deck: CardData[]): CardData[] => {
-  const newDeck = [...deck];
-  for (let i = newDeck.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [newDeck[i], newDeck[j]] = [newDeck[j], newDeck[i]];
-  }
-  return newDeck;
-};
-
-// --- Components ---
-
-const Card = ({ 
-  card, 
-  isFaceUp = true, 
-  onClick, 
-  isPlayable = false, 
-  isSmall = false,
-  className = ""
-}: { 
-  card?: CardData; 
-  isFaceUp?: boolean; 
-  onClick?: () => void; 
-  isPlayable?: boolean;
-  isSmall?: boolean;
-  className?: string;
-  key?: React.Key;
-}) => {
-  const cardContent = isFaceUp && card ? (
-    <div className={`relative w-full h-full bg-[#fdfaf1] rounded-lg border-2 ${isPlayable ? 'border-amber-500 shadow-lg shadow-amber-500/50 scale-105' : 'border-stone-300'} flex flex-col p-1 sm:p-2 select-none overflow-hidden`}>
-      {/* Subtle paper texture overlay */}
-      <div className="absolute inset-0 opacity-5 pointer-events-none bg-[url('https://www.transparenttextures.com/patterns/paper-fibers.png')]"></div>
-      
-      <div className={`flex flex-col items-center self-start ${SUIT_COLORS[card.suit]} z-10`}>
-        <span className="text-xs sm:text-sm font-serif-sc font-bold leading-none">{card.rank}</span>
-        <div className="w-2 h-2 sm:w-3 sm:h-3">{SUIT_ICONS[card.suit]}</div>
-      </div>
-      
-      <div className="absolute inset-0 flex items-center justify-center opacity-10 p-4">
-        {SUIT_ICONS[card.suit]}
-      </div>
-
-      <div className={`flex flex-col items-center self-end rotate-180 ${SUIT_COLORS[card.suit]} z-10`}>
-        <span className="text-xs sm:text-sm font-serif-sc font-bold leading-none">{card.rank}</span>
-        <div className="w-2 h-2 sm:w-3 sm:h-3">{SUIT_ICONS[card.suit]}</div>
-      </div>
-    </div>
-  ) : (
-    <div className="w-full h-full bg-[#1a1a1a] rounded-lg border-2 border-amber-600/50 flex items-center justify-center p-1 sm:p-2 relative overflow-hidden">
-      <div className="absolute inset-0 opacity-40 bg-[url('https://picsum.photos/id/1016/400/600?grayscale')] bg-cover bg-center"></div>
-      <div className="absolute inset-0 bg-gradient-to-tr from-amber-900/40 to-transparent"></div>
-      <div className="w-full h-full border border-amber-500/30 rounded flex items-center justify-center z-10">
-        <div className="flex flex-col items-center text-amber-500/60">
-          <div className="font-calligraphy text-3xl sm:text-5xl drop-shadow-lg">泰山</div>
-          <div className="text-[8px] sm:text-[10px] uppercase tracking-[0.3em] font-serif-sc mt-1">Mount Tai</div>
-        </div>
-      </div>
-      {/* Decorative corners */}
-      <div className="absolute top-1 left-1 w-2 h-2 border-t border-l border-amber-500/40"></div>
-      <div className="absolute top-1 right-1 w-2 h-2 border-t border-r border-amber-500/40"></div>
-      <div className="absolute bottom-1 left-1 w-2 h-2 border-b border-l border-amber-500/40"></div>
-      <div className="absolute bottom-1 right-1 w-2 h-2 border-b border-r border-amber-500/40"></div>
-    </div>
-  );
+  /** Pass-and-play: several people share the device and take turns at the bottom of the table. */
+  const hotSeat = seats.filter(seat => seat.kind === 'human').length > 1;
+  /** Whose hand is at the bottom: the human to move, or the last one who did while the AI plays. */
+  const viewer = game && seats[game.current]?.kind === 'human' ? game.current : lastHuman;
+  /** Between pass-and-play turns the hand stays face-down until its owner taps in. */
+  const handHidden = hotSeat && revealedFor !== viewer;
+  /** Watch mode: every seat is an AI, and the hand at the bottom is just another seat. */
+  const watching = seats.every(seat => seat.kind === 'ai');
+  const handFaceDown = handHidden || (watching && !watchFaceUp);
+  /** Watch mode speeds up or slows down the AI and the cards with it. */
+  const pace = watching ? watchSpeed : 1;
+  const deck = game?.deck ?? [];
+  const playerHand = game?.hands[viewer] ?? [];
+  const activeSuit = game?.activeSuit ?? null;
+  const topDiscard = game ? getTopDiscard(game) : undefined;
+  /** The discard on show: a card still flying to the pile lands on the one below it. */
+  const pileTop = game?.discardPile.findLast(card => !flying.has(card.id));
+  /** Cards a hand shows; ones still flying in appear when they land. */
+  const landedCount = (seat: number) => game?.hands[seat]?.filter(card => !flying.has(card.id)).length ?? 0;
+  /** Every hand is face-up while watching with the toggle on. */
+  const seatCards = (seat: number) => (watching && watchFaceUp ? game?.hands[seat]?.filter(card => !flying.has(card.id)) : undefined);
+  const turn = game?.current === viewer && !handHidden && !watching ? 'player' : 'ai';
+  const gameStatus = !game
+    ? 'idle'
+    : game.phase !== 'finished'
+      ? 'playing'
+      : seats[game.winner!].kind === 'human' ? 'player_won' : 'ai_won';
+  const showSuitSelector = game?.phase === 'choosingSuit' && game.current === viewer && !handHidden;
+  const matchOver = match ? matchWinner(match, seats.length) : null;
+  /** Hints and undo are for practice; a ranked daily attempt gets neither. */
+  const assistAllowed = !daily?.ranked;
+  const layout = opponentLayout(Array.from({ length: seats.length - 1 }, (_, i) => (viewer + 1 + i) % seats.length));
+  /** Addressed as "you" only when playing alone; pass-and-play names everyone. */
+  const isYou = (seat: number) => !hotSeat && seat === HUMAN;
+  const botTag = (seat: number) => (seats[seat].kind === 'ai' ? botLabel(t, { name: seats[seat].bot, label: seats[seat].bot }) : undefined);
 
-  return (
-    <motion.div
-      layout
-      initial={{ scale: 0.8, opacity: 0 }}
-      animate={{ scale: 1, opacity: 1 }}
-      whileHover={isPlayable ? { y: -10, scale: 1.05 } : {}}
-      onClick={isPlayable ? onClick : undefined}
-      className={`
-        ${isSmall ? 'w-12 h-16 sm:w-16 sm:h-24' : 'w-16 h-24 sm:w-24 sm:h-36'} 
-        cursor-pointer relative transition-shadow
-        ${className}
-      `}
-    >
-      {cardContent}
-    </motion.div>
-  );
-};
+  // --- Game Logic ---
 
-export default function App() {
-  const [deck, setDeck] = useState<CardData[]>([]);
-  const [playerHand, setPlayerHand] = useState<CardData[]>([]);
-  const [aiHand, setAiHand] = useState<CardData[]>([]);
-  const [discardPile, setDiscardPile] = useState<CardData[]>([]);
-  const [turn, setTurn] = useState<'player' | 'ai'>('player');
-  const [activeSuit, setActiveSuit] = useState<Suit | null>(null);
-  const [gameStatus, setGameStatus] = useState<'idle' | 'playing' | 'player_won' | 'ai_won'>('idle');
-  const [showSuitSelector, setShowSuitSelector] = useState(false);
-  const [message, setMessage] = useState("Welcome to Tina's Crazy Eights!");
-
-  const topDiscard = discardPile[discardPile.length - 1];
+  /** Starts a new match at `table` with the settings from the start screen. */
+  const dealMatch = useCallback((table: SeatConfig[]) => {
+    setSeats(table);
+    setLastHuman(HUMAN);
+    setSaveError(null);
+    setDaily(null);
+    setAssisted(false);
+    setMatch(createMatch(matchTarget, scoring));
+    const dealt = createGame(randomSeed(), rules, table.length);
+    const solo = table.filter(seat => seat.kind === 'human').length === 1;
+    launch(dealMoves(dealt, solo ? HUMAN : null));
+    setGame(dealt);
+    setRevealedFor(null);
+    setLog(startLog(dealt));
+    setWatched([]);
+    setMessage(solo
+      ? msg('status.firstTurn')
+      : msg('status.startsFirst', { name: table[dealt.current].name }));
+  }, [rules, matchTarget, scoring, launch]);
 
-  // --- Game Logic ---
+  const initGame = () => dealMatch(createSeats(seatCount, seatBots, seatNames(t)));
 
-  const initGame = useCallback(() => {
-    const fullDeck = shuffle(createDeck());
-    const pHand = fullDeck.splice(0, 8);
-    const aHand = fullDeck.splice(0, 8);
-    
-    // Ensure first discard is not an 8 for simplicity in first turn
-    let firstDiscardIndex = 0;
-    while(fullDeck[firstDiscardIndex].rank === '8') {
-      firstDiscardIndex++;
-    }
-    const firstDiscard = fullDeck.splice(firstDiscardIndex, 1)[0];
-
-    setDeck(fullDeck);
-    setPlayerHand(pHand);
-    setAiHand(aHand);
-    setDiscardPile([firstDiscard]);
-    setActiveSuit(null);
-    setTurn('player');
-    setGameStatus('playing');
-    setMessage("Your turn! Match the suit or rank.");
-  }, []);
+  /** Deals a match between AIs only: seat 1 plays the default bot, the others the bots picked for them. */
+  const startWatching = () => {
+    const bots = seatBots.map(bot => (bot === HUMAN_SEAT ? DEFAULT_BOT : bot));
+    setWatchPaused(false);
+    dealMatch(createBotSeats(seatCount, [DEFAULT_BOT, ...bots], seatNames(t)));
+  };
 
-  const isPlayable = useCallback((card: CardData) => {
-    if (!topDiscard) return false;
-    if (card.rank === '8') return true;
-    
-    const targetSuit = activeSuit || topDiscard.suit;
-    return card.suit === targetSuit || card.rank === topDiscard.rank;
-  }, [topDiscard, activeSuit]);
-
-  const handlePlayCard = useCallback((card: CardData, isPlayer: boolean) => {
-    if (isPlayer) {
-      setPlayerHand(prev => prev.filter(c => c.id !== card.id));
-    } else {
-      setAiHand(prev => prev.filter(c => c.id !== card.id));
-    }
+  const continueGame = useCallback(() => {
+    if (!savedGame) return;
+    setSeats(savedGame.seats);
+    setMatch(savedGame.match);
+    setLog(savedGame.log);
+    setDaily(savedGame.daily ?? null);
+    setAssisted(savedGame.assisted ?? false);
+    setGame(savedGame.game);
+    setRevealedFor(null);
+    setMessage(msg(savedGame.game.current === HUMAN ? 'status.welcomeBackTurn' : 'status.welcomeBack'));
+  }, [savedGame]);
+
+  /** Back to the start screen; the game stays saved and can be continued from there. */
+  const leaveGame = () => {
+    if (game) setSavedGame(toSave(game, seats, match, log, { daily, assisted }));
+    setGame(null);
+  };
+
+  /** Deals a daily challenge: the same cards, rules and opponent for everyone that day. */
+  const startDaily = (run: DailyRun) => {
+    const dealt = createDailyGame(run.date);
+    setShowDaily(false);
+    setSaveError(null);
+    setSeats(dailySeats(seatNames(t)));
+    setMatch(null);
+    setDaily(run);
+    setDailyResult(null);
+    setAssisted(false);
+    launch(dealMoves(dealt, HUMAN));
+    setGame(dealt);
+    setRevealedFor(null);
+    setLog(startLog(dealt));
+    setMessage(run.ranked ? msg('status.dailyRanked') : msg('status.dailyPractice', { date: run.date }));
+  };
 
-    setDiscardPile(prev => [...prev, card]);
-    
-    if (card.rank === '8') {
-      if (isPlayer) {
-        setShowSuitSelector(true);
-        setMessage("Choose a new suit!");
-      } else {
-        // AI chooses suit (simple: most frequent suit in hand)
-        const suitsInHand = aiHand.filter(c => c.id !== card.id).map(c => c.suit);
-        const mostFrequentSuit = SUITS.reduce((a, b) => 
-          suitsInHand.filter(s => s === a).length >= suitsInHand.filter(s => s === b).length ? a : b
-        );
-        setActiveSuit(mostFrequentSuit);
-        setMessage(`AI played an 8 and chose ${mostFrequentSuit}!`);
-        setTurn('player');
+  /** What happens next, from the human's point of view. */
+  const nextTurnMessage = useCallback((next: GameState): Message =>
+    isYou(next.current) ? msg('status.yourTurn')
+      : seats[next.current].kind === 'human' ? msg('status.seatTurn', { name: seats[next.current].name })
+        : msg('status.thinking', { name: seats[next.current].name }),
+  [seats, hotSeat]);
+
+  /** Deals the next hand of the current match at the same table. */
+  const nextHand = useCallback(() => {
+    if (!game) return;
+    const dealt = createGame(randomSeed(), game.rules, game.hands.length);
+    setAssisted(false);
+    launch(dealMoves(dealt, hotSeat || watching ? null : HUMAN), pace);
+    setGame(dealt);
+    setRevealedFor(null);
+    setLog(startLog(dealt));
+    setWatched([]);
+    setMessage([msg('status.newHand'), nextTurnMessage(dealt)]);
+  }, [game, nextTurnMessage, hotSeat, watching, pace, launch]);
+
+  useEffect(() => {
+    gameRef.current = game;
+  }, [game]);
+
+  /** Runs a sequence of actions through the engine; stops at the first illegal one. */
+  const dispatch = useCallback((...actions: Action[]): GameState | null => {
+    if (!game || game !== gameRef.current) return null;
+    let next = game;
+    for (const action of actions) {
+      const result = applyAction(next, action);
+      if (result.ok === false) {
+        setMessage(engineErrorMsg(next, action, result.error.code));
+        return null;
       }
-    } else {
-      setActiveSuit(null);
-      setTurn(isPlayer ? 'ai' : 'player');
-      setMessage(isPlayer ? "AI is thinking..." : "Your turn!");
+      next = result.state;
     }
-  }, [aiHand]);
+    gameRef.current = next;
+    launch(turnMoves(game, next, actions[0].seat, true));
+    setGame(next);
+    setLog(prev => prev && appendActions(prev, actions));
+    return next;
+  }, [game, launch]);
 
-  const handleDrawCard = useCallback((isPlayer: boolean) => {
-    if (deck.length === 0) {
-      setMessage("Deck is empty! Skipping turn.");
-      setTurn(isPlayer ? 'ai' : 'player');
-      return;
+  /** Describes the side effect of an action card, if it had one. */
+  const describeEffect = useCallback((card: CardData, before: GameState, next: GameState): Message | null => {
+    if (next.pendingDraw > 0) {
+      return isYou(next.current)
+        ? msg('effect.youMustDraw', { count: next.pendingDraw })
+        : msg('effect.mustDraw', { name: seats[next.current].name, count: next.pendingDraw });
     }
+    if (card.rank === 'Q' && before.rules.queenSkips) {
+      const skipped = (before.current + before.direction + seats.length) % seats.length;
+      return isYou(skipped) ? msg('effect.youSkipped') : msg('effect.skipped', { name: seats[skipped].name });
+    }
+    if (card.rank === 'A' && before.rules.aceReverses) {
+      return msg('effect.reversed');
+    }
+    return null;
+  }, [seats, hotSeat]);
 
-    const newCard = deck[0];
-    setDeck(prev => prev.slice(1));
+  const handlePlayCard = (card: CardData) => {
+    if (!game || isBusy()) return;
+    const next = dispatch({ type: 'play', seat: viewer, cardId: card.id });
+    if (!next || next.phase === 'finished') return;
+    if (next.phase === 'choosingSuit') {
+      setMessage(msg('status.chooseSuit'));
+      return;
+    }
+    const effect = describeEffect(card, game, next);
+    setMessage(effect ? [effect, nextTurnMessage(next)] : nextTurnMessage(next));
+  };
 
-    if (isPlayer) {
-      setPlayerHand(prev => [...prev, newCard]);
-      setMessage("You drew a card.");
-    } else {
-      setAiHand(prev => [...prev, newCard]);
-      setMessage("AI drew a card.");
-      setTurn('player');
+  const handleDrawCard = () => {
+    if (!game || isBusy()) return;
+    if (game.pendingDraw > 0) {
+      const next = dispatch({ type: 'draw', seat: viewer });
+      if (next) setMessage([msg('status.youDrewPenalty', { count: game.pendingDraw }), nextTurnMessage(next)]);
+    } else if (drawableCount(game) === 0 && canPass(game)) {
+      // Only an empty deck turns the draw pile into a pass; after drawing under
+      // draw-one-then-pass the engine refuses the draw and says why.
+      dispatch({ type: 'pass', seat: viewer });
+      setMessage(msg('status.deckEmptySkip'));
+    } else if (dispatch({ type: 'draw', seat: viewer })) {
+      setMessage(msg(game.deck.length === 0 ? 'status.reshuffledYouDrew' : 'status.youDrew'));
     }
-  }, [deck]);
+  };
+
+  /** Dropping a card on the discard pile, or flicking it upwards, plays it; anything else snaps it back. */
+  const handleCardDrop = (card: CardData, { point, offset }: PanInfo) => {
+    const pile = anchorRect('discard');
+    const x = point.x - window.scrollX;
+    const y = point.y - window.scrollY;
+    const onPile = pile && x >= pile.left && x <= pile.left + pile.width && y >= pile.top && y <= pile.top + pile.height;
+    const swipedUp = offset.y < -SWIPE_DISTANCE && Math.abs(offset.x) < -offset.y;
+    // An illegal card stays in the hand and the status line says why.
+    if (onPile || swipedUp) handlePlayCard(card);
+  };
+
+  const handlePass = () => {
+    if (isBusy()) return;
+    const next = dispatch({ type: 'pass', seat: viewer });
+    if (next) setMessage([msg('status.youPassed'), nextTurnMessage(next)]);
+  };
 
   const handleSuitSelect = (suit: Suit) => {
-    setActiveSuit(suit);
-    setShowSuitSelector(false);
-    setTurn('ai');
-    setMessage(`You chose ${suit}. AI is thinking...`);
+    if (isBusy()) return;
+    const next = dispatch({ type: 'chooseSuit', seat: viewer, suit });
+    if (!next) return;
+    const effect = describeEffect(topDiscard!, game!, next);
+    setMessage([msg('status.youChose', { suit: suitMsg(suit) }), effect ?? nextTurnMessage(next)]);
+  };
+
+  // --- Pass and Play ---
+
+  useEffect(() => {
+    if (game && seats[game.current]?.kind === 'human') setLastHuman(game.current);
+  }, [game, seats]);
+
+  // --- Assistance ---
+
+  useEffect(() => setHints(null), [game]);
+
+  const handleHint = () => {
+    if (!game) return;
+    setHints(rankPlayable(seatView(game, viewer)));
+    setAssisted(true);
+  };
+
+  /** Rewinds to the start of the human's last turn, taking back the AI's replies too. */
+  const handleUndo = () => {
+    if (!game || !log) return;
+    const states = replayStates(log);
+    const point = undoPoint(log, HUMAN, states);
+    if (point === null) return;
+    setGame(states[point]);
+    setLog({ ...log, actions: log.actions.slice(0, point) });
+    setAssisted(true);
+    setMessage(msg('status.undone'));
+  };
+
+  const cycleHighlight = () => {
+    const next = HIGHLIGHT_MODES[(HIGHLIGHT_MODES.indexOf(highlight) + 1) % HIGHLIGHT_MODES.length];
+    setHighlight(next);
+    storeHighlightMode(next);
+  };
+
+  // --- Keyboard ---
+
+  const canAct = turn === 'player' && gameStatus === 'playing' && game?.phase === 'playing'
+    && !replay && !online && !showStats && !showDaily;
+
+  // D draws (or passes on an empty deck) from anywhere but a form field.
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() !== 'd' || e.ctrlKey || e.metaKey || e.altKey || !canAct) return;
+      if (e.target instanceof HTMLElement && e.target.closest('input, select, textarea')) return;
+      e.preventDefault();
+      handleDrawCard();
+    };
+    document.addEventListener('keydown', onKeyDown);
+    return () => document.removeEventListener('keydown', onKeyDown);
+  });
+
+  // Back to the hand when the turn comes round, unless focus is somewhere else on purpose.
+  useEffect(() => {
+    if (turn === 'player' && document.activeElement === document.body) {
+      handRef.current?.querySelector<HTMLElement>('[tabindex="0"]')?.focus();
+    }
+  }, [turn]);
+
+  /** Arrow keys, Home and End move through the hand; the cards themselves play on Enter. */
+  const handleHandKeyDown = (e: React.KeyboardEvent) => {
+    const cards = [...(handRef.current?.querySelectorAll<HTMLElement>('[role="button"]') ?? [])];
+    const from = cards.indexOf(document.activeElement as HTMLElement);
+    if (from < 0) return;
+    const to =
+      e.key === 'ArrowRight' || e.key === 'ArrowDown' ? Math.min(from + 1, cards.length - 1)
+      : e.key === 'ArrowLeft' || e.key === 'ArrowUp' ? Math.max(from - 1, 0)
+      : e.key === 'Home' ? 0
+      : e.key === 'End' ? cards.length - 1
+      : null;
+    if (to === null) return;
+    e.preventDefault();
+    setHandFocus(to);
+    cards[to].focus();
   };
 
   // --- AI Logic ---
 
+  /** The AI waits for cards to land before it moves again. */
+  const landing = flights.length > 0;
+
+  /** Plays the current AI seat's whole turn. */
+  const playAiTurn = useCallback(() => {
+    if (!game || game !== gameRef.current || game.phase !== 'playing' || seats[game.current].kind !== 'ai') return;
+    const seat = game.current;
+    const name = seats[seat].name;
+    let bot = getBot(seats[seat].bot);
+    let turnResult: ReturnType<typeof runBotTurn>;
+    let replaced: Message | null = null;
+    try {
+      turnResult = runBotTurn(game, seat, bot);
+    } catch (error) {
+      if (!(error instanceof BotMoveError)) throw error;
+      // Keep the game going with a built-in bot rather than stalling on a broken one.
+      replaced = msg('ai.botReplaced', { name, bot: botLabel(t, bot) });
+      bot = getBot(DEFAULT_BOT);
+      turnResult = runBotTurn(game, seat, bot);
+    }
+    const say = (text: Text) => setMessage(replaced ? [replaced, ...[text].flat()] : text);
+    const { actions, state: next, decisions } = turnResult;
+    gameRef.current = next;
+    launch(turnMoves(game, next, seat, watching && watchFaceUp), pace);
+    setGame(next);
+    setLog(prev => prev && appendActions(prev, actions));
+    const lines = turnEntries(game, actions).map(entry => formatEntry(entry, seats, viewer, t));
+    setSpoken(prev => [...prev, ...lines.map((text, i) => ({ id: (prev[prev.length - 1]?.id ?? 0) + i + 1, text }))].slice(-SPOKEN_ACTIONS));
+    if (watching) {
+      const moves = decisions.map(({ view, move }) => ({
+        move,
+        card: move.type === 'play' ? view.hand.find(c => c.id === move.cardId) : undefined,
+        why: bot.explain?.(view, move) ?? explainMove(view, move),
+      }));
+      setWatched(prev => [...prev, { id: (prev[prev.length - 1]?.id ?? 0) + 1, seat, moves }].slice(-WATCHED_TURNS));
+    }
+    if (next.phase === 'finished') return;
+
+    const played = actions.find(a => a.type === 'play');
+    const suitChoice = actions.find(a => a.type === 'chooseSuit');
+    const drawn = next.hands[seat].length - game.hands[seat].length + (played ? 1 : 0);
+    const card = played && game.hands[seat].find(c => c.id === played.cardId);
+    const effect = card && describeEffect(card, game, next);
+
+    if (card && suitChoice) {
+      const wild = msg(card.rank === '8' ? 'ai.playedEight' : card.rank === 'J' ? 'ai.playedWildJack' : 'ai.playedJoker', { name, suit: suitMsg(suitChoice.suit) });
+      say(effect ? [wild, effect] : wild);
+    } else if (card && effect) {
+      say([msg('ai.playedAction', { name, card: cardMsg(card) }), effect]);
+    } else if (card) {
+      say(drawn > 0 ? [msg('ai.drewAndPlayed', { name }), nextTurnMessage(next)] : nextTurnMessage(next));
+    } else if (drawn > 0) {
+      say(drawn === 1 ? msg('ai.drewOne', { name }) : msg('ai.drewMany', { name, count: drawn }));
+    } else {
+      say(msg('status.deckEmptySkip'));
+    }
+  }, [game, seats, viewer, describeEffect, nextTurnMessage, t, launch, watching, watchFaceUp, pace]);
+
   useEffect(() => {
-    if (turn === 'ai' && gameStatus === 'playing') {
-      const timer = setTimeout(() => {
-        const playableCards = aiHand.filter(isPlayable);
-        
-        if (playableCards.length > 0) {
-          const nonEight = playableCards.find(c => c.rank !== '8');
-          const cardToPlay = nonEight || playableCards[0];
-          handlePlayCard(cardToPlay, false);
-        } else {
-          handleDrawCard(false);
-        }
-      }, 1500);
-      return () => clearTimeout(timer);
+    if (!game || game.phase !== 'playing' || seats[game.current].kind !== 'ai' || landing || (watching && watchPaused)) return;
+    const timer = setTimeout(playAiTurn, AI_DELAY / pace);
+    return () => clearTimeout(timer);
+  }, [game, seats, landing, watching, watchPaused, pace, playAiTurn]);
+
+  // --- Saving ---
+
+  useEffect(() => {
+    const loaded = loadSavedGame();
+    if (loaded && 'save' in loaded) setSavedGame(loaded.save);
+    if (loaded && 'error' in loaded) setSaveError(loaded.error);
+  }, []);
+
+  useEffect(() => {
+    if (game) storeSavedGame(toSave(game, seats, match, log, { daily, assisted }));
+  }, [game, seats, match, log, daily, assisted]);
+
+  // --- History & Replays ---
+
+  const handleExport = () => {
+    if (!log) return;
+    downloadFile(`crazy-eights-${log.seed}.json`, exportReplay(log, seats));
+  };
+
+  const handleImport = async () => {
+    const text = await pickTextFile('application/json,.json');
+    if (text === null) return;
+    try {
+      setReplay(importReplay(text));
+      setImportError(null);
+    } catch (error) {
+      if (!(error instanceof ReplayError)) throw error;
+      setImportError(error.reason);
+      setMessage(msg('status.importFailed'));
     }
-  }, [turn, aiHand, isPlayable, handlePlayCard, handleDrawCard, gameStatus]);
+  };
 
   // --- Win Condition ---
 
   useEffect(() => {
-    if (gameStatus === 'playing') {
-      if (playerHand.length === 0) {
-        setGameStatus('player_won');
-        setMessage("Congratulations! You won!");
-      } else if (aiHand.length === 0) {
-        setGameStatus('ai_won');
-        setMessage("AI won! Better luck next time.");
-      }
+    if (game?.phase === 'finished') {
+      setMatch(prev => prev && recordHand(prev, game));
     }
-  }, [playerHand, aiHand, gameStatus]);
+  }, [game]);
 
-  // --- Render Helpers ---
+  // The server ignores a game it already has, so continuing a finished save is harmless.
+  useEffect(() => {
+    if (game?.phase !== 'finished' || !profile || hotSeat || watching) return;
+    recordGame(profile.id, summarizeGame(game, seats, assisted)).catch((error) => console.error(error));
+  }, [game, profile]);
 
-  const renderSuitIcon = (suit: Suit) => {
-    switch(suit) {
-      case 'hearts': return <Heart className="w-6 h-6 text-rose-500 fill-rose-500" />;
-      case 'diamonds': return <Diamond className="w-6 h-6 text-amber-500 fill-amber-500" />;
-      case 'clubs': return <Club className="w-6 h-6 text-emerald-600 fill-emerald-600" />;
-      case 'spades': return <Spade className="w-6 h-6 text-sky-700 fill-sky-700" />;
-    }
+  useEffect(() => {
+    if (game?.phase !== 'finished' || !daily?.ranked || !profile || !log) return;
+    submitDailyAttempt(daily.date, profile.id, log).then(
+      ({ score }) => setDailyResult(score
+        ? msg('over.dailyRecorded', { turns: score.turns, draws: score.draws })
+        : msg('api.FAILED')),
+      (error) => setDailyResult(apiErrorMessage(error)),
+    );
+  }, [game, daily, profile]);
+
+  const handleProfileChange = (next: Profile | null) => {
+    setProfile(next);
+    storeProfileId(next?.id ?? null);
   };
 
+  useEffect(() => {
+    if (gameStatus === 'player_won') {
+      setMessage(isYou(game!.winner!) ? msg('status.youWon') : msg('status.seatWon', { name: seats[game!.winner!].name }));
+    } else if (gameStatus === 'ai_won') {
+      setMessage(msg('status.aiWon', { name: seats[game!.winner!].name }));
+    }
+  }, [gameStatus]);
+
+  const gameOverRef = useFocusTrap<HTMLDivElement>(gameStatus === 'player_won' || gameStatus === 'ai_won');
+
   return (
-    <div className="min-h-screen fengshui-bg text-stone-100 font-serif-sc selection:bg-amber-900/50 overflow-hidden flex flex-col">
+    <div className="min-h-screen table-bg text-stone-100 font-serif-sc selection:bg-accent-900/50 overflow-hidden flex flex-col">
       {/* Header */}
-      <header className="p-4 bg-black/40 backdrop-blur-md flex justify-between items-center border-b border-amber-500/20">
+      <header className="p-4 bg-black/40 backdrop-blur-md flex justify-between items-center border-b border-accent-500/20">
         <div className="flex items-center gap-3">
-          <div className="w-10 h-10 bg-amber-500 rounded-full flex items-center justify-center text-black font-calligraphy text-2xl shadow-[0_0_15px_rgba(245,158,11,0.5)]">
+          <div className="w-10 h-10 bg-accent-500 rounded-full flex items-center justify-center text-black font-calligraphy text-2xl shadow-[0_0_15px] shadow-accent-500/50">
             八
           </div>
-          <h1 className="text-xl font-bold tracking-widest font-calligraphy text-amber-100 hidden sm:block">泰山风水 · 疯狂八点</h1>
+          <h1 className="text-xl font-bold tracking-widest font-calligraphy text-accent-100 hidden sm:block">{t('app.title')}</h1>
+          {game && (
+            <div className="hidden md:flex flex-wrap gap-1 max-w-md">
+              {daily && (
+                <span className="text-[10px] font-mono uppercase tracking-wider px-2 py-0.5 rounded-full bg-rose-500/20 border border-rose-400/40 text-rose-200">
+                  {t(daily.ranked ? 'header.daily' : 'header.dailyPractice', { date: daily.date })}
+                </span>
+              )}
+              {describeRules(game.rules, t).map((label) => (
+                <span key={label} className="text-[10px] font-mono uppercase tracking-wider px-2 py-0.5 rounded-full bg-accent-500/10 border border-accent-500/30 text-accent-300">
+                  {label}
+                </span>
+              ))}
+            </div>
+          )}
         </div>
         
-        <div className="flex items-center gap-4">
-          <div className="flex items-center gap-2 bg-black/30 px-3 py-1 rounded-full border border-amber-500/20">
-            <Cpu className="w-4 h-4 text-amber-400" />
-            <span className="text-sm font-medium">{aiHand.length}</span>
-          </div>
-          <div className="flex items-center gap-2 bg-black/30 px-3 py-1 rounded-full border border-amber-500/20">
-            <User className="w-4 h-4 text-amber-400" />
-            <span className="text-sm font-medium">{playerHand.length}</span>
-          </div>
+        <div className="flex items-center gap-2 sm:gap-4 flex-wrap justify-end">
+          {game && seats.map((seat, idx) => {
+            const SeatIcon = seat.kind === 'human' ? User : Cpu;
+            return (
+              <div
+                key={idx}
+                title={seat.name}
+                className={`flex items-center gap-2 bg-black/30 px-3 py-1 rounded-full border ${game.current === idx ? 'border-accent-400' : 'border-accent-500/20'}`}
+              >
+                <SeatIcon className="w-4 h-4 text-accent-400" />
+                <span className="text-sm font-medium">{game.hands[idx].length}</span>
+              </div>
+            );
+          })}
+          {game && assisted && (
+            <span className="text-[10px] font-mono uppercase tracking-wider px-2 py-0.5 rounded-full bg-sky-500/20 border border-sky-400/40 text-sky-200" title={t('header.assistedTitle')}>
+              {t('header.assisted')}
+            </span>
+          )}
+          <button
+            onClick={cycleHighlight}
+            className="p-2 hover:bg-white/10 rounded-full transition-colors text-accent-400"
+            title={t(highlight === 'playable' ? 'highlight.playable' : highlight === 'dim' ? 'highlight.dim' : 'highlight.off')}
+          >
+            {highlight === 'playable' ? <Eye className="w-5 h-5" /> : highlight === 'dim' ? <ScanEye className="w-5 h-5" /> : <EyeOff className="w-5 h-5" />}
+          </button>
+          {profile && (
+            <button
+              onClick={() => setShowStats(true)}
+              className="flex items-center gap-2 px-3 py-1 rounded-full border border-accent-500/20 hover:bg-white/10 transition-colors text-accent-200 text-sm"
+              title={t('header.statistics')}
+            >
+              <BarChart3 className="w-4 h-4 text-accent-400" />
+              <span className="hidden sm:inline">{profile.name}</span>
+            </button>
+          )}
+          <SettingsMenu />
           <button 
-            onClick={initGame}
-            className="p-2 hover:bg-white/10 rounded-full transition-colors text-amber-400"
-            title="重新开始"
+            onClick={leaveGame}
+            className="p-2 hover:bg-white/10 rounded-full transition-colors text-accent-400"
+            title={t('header.restart')}
           >
             <RotateCcw className="w-5 h-5" />
           </button>
@@ -314,135 +628,237 @@ export default function App() {
       {/* Main Game Area */}
       <main className="flex-1 relative p-4 flex flex-col items-center justify-between max-w-6xl mx-auto w-full">
         
-        {/* AI Hand */}
-        <div className="w-full flex justify-center h-24 sm:h-36">
-          <div className="flex -space-x-8 sm:-space-x-12">
-            {aiHand.map((card, idx) => (
-              <Card key={card.id} isFaceUp={false} isSmall className="z-0" />
+        {/* Opponents across the table */}
+        <div className="w-full flex justify-center gap-8 min-h-24 sm:min-h-36">
+          {layout.top.map((seat) => (
+            <OpponentSeat key={seat} seat={seat} cards={seatCards(seat)} name={seats[seat].name} tag={botTag(seat)} human={seats[seat].kind === 'human'} cardCount={landedCount(seat)} isActive={game?.current === seat} />
+          ))}
+        </div>
+
+        {/* Center Table, flanked by the side opponents */}
+        <div className="w-full flex items-center justify-between gap-4">
+          <div className="flex flex-col gap-6">
+            {layout.left.map((seat) => (
+              <OpponentSeat key={seat} seat={seat} cards={seatCards(seat)} name={seats[seat].name} tag={botTag(seat)} human={seats[seat].kind === 'human'} cardCount={landedCount(seat)} isActive={game?.current === seat} vertical />
             ))}
           </div>
-        </div>
+          <div className="flex flex-col items-center gap-8 my-4 mx-auto">
+            <div className="flex items-center gap-8 sm:gap-16">
+              {/* Draw Pile */}
+              <div className="relative group">
+                <div className="absolute -inset-1 bg-white/5 rounded-xl blur-sm group-hover:bg-white/10 transition-all"></div>
+                <div 
+                  role="button"
+                  tabIndex={0}
+                  data-flight="deck"
+                  aria-label={t('table.drawPile', { count: deck.length })}
+                  aria-keyshortcuts="D"
+                  aria-disabled={!canAct}
+                  className={`relative rounded-lg focus-visible:outline-none focus-visible:ring-4 focus-visible:ring-accent-300 ${game && drawableCount(game) > 0 ? 'cursor-pointer' : 'opacity-50'}`}
+                  onClick={() => turn === 'player' && gameStatus === 'playing' && handleDrawCard()}
+                  onKeyDown={(e) => {
+                    if (e.key !== 'Enter' && e.key !== ' ') return;
+                    e.preventDefault();
+                    if (canAct) handleDrawCard();
+                  }}
+                >
+                  <DeckStack count={deck.length} />
+                  <div className="absolute -bottom-6 left-1/2 -translate-x-1/2 text-xs font-mono text-emerald-300 uppercase tracking-widest">
+                    {t('table.deck', { count: deck.length })}
+                  </div>
+                </div>
+              </div>
 
-        {/* Center Table */}
-        <div className="flex flex-col items-center gap-8 my-4">
-          <div className="flex items-center gap-8 sm:gap-16">
-            {/* Draw Pile */}
-            <div className="relative group">
-              <div className="absolute -inset-1 bg-white/5 rounded-xl blur-sm group-hover:bg-white/10 transition-all"></div>
-              <div 
-                className={`relative ${deck.length > 0 ? 'cursor-pointer' : 'opacity-50'}`}
-                onClick={() => turn === 'player' && gameStatus === 'playing' && handleDrawCard(true)}
-              >
-                <Card isFaceUp={false} />
-                <div className="absolute -bottom-6 left-1/2 -translate-x-1/2 text-xs font-mono text-emerald-300 uppercase tracking-widest">
-                  Deck ({deck.length})
+              {/* Discard Pile */}
+              <div className="relative" data-flight="discard">
+                <AnimatePresence mode="popLayout">
+                  {/* Cards arrive by flight, so the new top card only settles into place. */}
+                  <motion.div
+                    key={pileTop?.id}
+                    initial={{ rotate: 6 }}
+                    animate={{ rotate: 0 }}
+                    transition={{ type: "spring", stiffness: 200, damping: 20 }}
+                  >
+                    <Card card={pileTop} label={topDiscard && t('table.discardPile', { card: cardMsg(topDiscard) })} />
+                  </motion.div>
+                </AnimatePresence>
+                <div className="absolute -bottom-6 left-1/2 -translate-x-1/2 text-xs font-mono text-emerald-300 uppercase tracking-widest whitespace-nowrap">
+                  {t('table.discard')}
                 </div>
+                
+                {activeSuit && (
+                  <motion.div 
+                    initial={{ scale: 0 }}
+                    animate={{ scale: 1 }}
+                    className="absolute -top-4 -right-4 w-10 h-10 bg-white rounded-full shadow-xl flex items-center justify-center border-2 border-yellow-400 z-10"
+                  >
+                    <SuitIcon suit={activeSuit} className="w-6 h-6" />
+                    <span className="sr-only">{t('table.suitToPlay', { suit: suitMsg(activeSuit) })}</span>
+                  </motion.div>
+                )}
               </div>
             </div>
 
-            {/* Discard Pile */}
-            <div className="relative">
-              <AnimatePresence mode="popLayout">
-                <motion.div
-                  key={topDiscard?.id}
-                  initial={{ x: 100, opacity: 0, rotate: 45 }}
-                  animate={{ x: 0, opacity: 1, rotate: 0 }}
-                  transition={{ type: "spring", stiffness: 200, damping: 20 }}
-                >
-                  <Card card={topDiscard} />
-                </motion.div>
-              </AnimatePresence>
-              <div className="absolute -bottom-6 left-1/2 -translate-x-1/2 text-xs font-mono text-emerald-300 uppercase tracking-widest whitespace-nowrap">
-                Discard
-              </div>
-              
-              {activeSuit && (
-                <motion.div 
-                  initial={{ scale: 0 }}
-                  animate={{ scale: 1 }}
-                  className="absolute -top-4 -right-4 w-10 h-10 bg-white rounded-full shadow-xl flex items-center justify-center border-2 border-yellow-400 z-10"
-                >
-                  {renderSuitIcon(activeSuit)}
-                </motion.div>
-              )}
+            {/* Status Message */}
+            <div className="bg-black/50 backdrop-blur-sm px-6 py-2 rounded-full border border-accent-500/30 flex items-center gap-3 shadow-2xl">
+              <div className={`w-2 h-2 rounded-full ${turn === 'player' ? 'bg-accent-400 animate-pulse shadow-[0_0_8px] shadow-accent-500/80' : 'bg-stone-600'}`} />
+              <p className="text-sm sm:text-base font-medium text-accent-50 tracking-wide" aria-hidden="true">{tx(message)}</p>
             </div>
           </div>
-
-          {/* Status Message */}
-          <div className="bg-black/50 backdrop-blur-sm px-6 py-2 rounded-full border border-amber-500/30 flex items-center gap-3 shadow-2xl">
-            <div className={`w-2 h-2 rounded-full ${turn === 'player' ? 'bg-amber-400 animate-pulse shadow-[0_0_8px_rgba(245,158,11,0.8)]' : 'bg-stone-600'}`} />
-            <p className="text-sm sm:text-base font-medium text-amber-50 tracking-wide">{message}</p>
+          <div className="flex flex-col gap-6">
+            {layout.right.map((seat) => (
+              <OpponentSeat key={seat} seat={seat} cards={seatCards(seat)} name={seats[seat].name} tag={botTag(seat)} human={seats[seat].kind === 'human'} cardCount={landedCount(seat)} isActive={game?.current === seat} vertical />
+            ))}
           </div>
         </div>
 
         {/* Player Hand */}
         <div className="w-full flex flex-col items-center gap-4">
-          <div className="flex flex-wrap justify-center gap-2 sm:gap-4 max-w-4xl">
+          <div
+            ref={handRef}
+            data-flight={`seat-${viewer}`}
+            role="group"
+            aria-label={handFaceDown ? t('table.hiddenHand')
+              : watching ? t('table.seatHand', { name: seats[viewer].name, count: playerHand.length })
+                : t('table.yourHand', { count: playerHand.length })}
+            onKeyDown={handleHandKeyDown}
+            className="flex flex-wrap justify-center gap-2 sm:gap-4 max-w-4xl"
+          >
             <AnimatePresence>
-              {playerHand.map((card) => (
-                <Card 
-                  key={card.id} 
-                  card={card} 
-                  isPlayable={turn === 'player' && gameStatus === 'playing' && isPlayable(card)}
-                  onClick={() => handlePlayCard(card, true)}
-                />
+              {handFaceDown && playerHand.filter(card => !flying.has(card.id)).map((card) => (
+                <Card key={card.id} isFaceUp={false} />
               ))}
+              {!handFaceDown && playerHand.map((card, idx) => {
+                const myTurn = turn === 'player' && gameStatus === 'playing';
+                const legal = myTurn && isPlayable(game!, card);
+                return (
+                  <Card 
+                    key={card.id} 
+                    card={card} 
+                    isPlayable={legal && highlight !== 'off'}
+                    isDimmed={myTurn && !legal && highlight === 'dim'}
+                    isClickable={highlight === 'off' ? myTurn : legal}
+                    label={legal ? t('card.playable', { card: cardMsg(card) }) : tx(cardMsg(card))}
+                    tabIndex={idx === Math.min(handFocus, playerHand.length - 1) ? 0 : -1}
+                    onClick={() => handlePlayCard(card)}
+                    onDragEnd={canAct ? (info) => handleCardDrop(card, info) : undefined}
+                    className={flying.has(card.id) ? 'invisible' : ''}
+                  />
+                );
+              })}
             </AnimatePresence>
           </div>
           
           {/* Controls Hint */}
-          {turn === 'player' && gameStatus === 'playing' && playerHand.filter(isPlayable).length === 0 && (
+          {turn === 'player' && gameStatus === 'playing' && game!.pendingDraw > 0 && (
             <motion.div 
               initial={{ opacity: 0, y: 10 }}
               animate={{ opacity: 1, y: 0 }}
               className="text-yellow-400 text-xs font-bold uppercase tracking-tighter flex items-center gap-1"
             >
-              <Info className="w-3 h-3" /> No playable cards! Draw from the deck.
+              <Info className="w-3 h-3" /> {t('table.drawOrStack', { count: game!.pendingDraw })}
             </motion.div>
           )}
+          {turn === 'player' && gameStatus === 'playing' && game!.pendingDraw === 0 && playableCards(game!, viewer).length === 0 && (
+            <motion.div 
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="text-yellow-400 text-xs font-bold uppercase tracking-tighter flex items-center gap-1"
+            >
+              <Info className="w-3 h-3" /> {t(canDraw(game!) ? 'table.noPlayDraw' : 'table.noPlayPass')}
+            </motion.div>
+          )}
+          {turn === 'player' && gameStatus === 'playing' && game!.phase === 'playing' && game!.hasDrawn && canPass(game!) && (
+            <button
+              onClick={handlePass}
+              className="px-4 py-1 rounded-full border border-accent-500/40 bg-black/40 text-accent-200 text-xs uppercase tracking-widest hover:bg-accent-500/20 transition-colors"
+            >
+              {t('table.pass')}
+            </button>
+          )}
+
+          {/* Practice Aids */}
+          {gameStatus === 'playing' && assistAllowed && !watching && (
+            <div className="flex items-center gap-3">
+              <button
+                onClick={handleHint}
+                disabled={turn !== 'player' || game!.phase !== 'playing' || playableCards(game!, viewer).length === 0}
+                className="flex items-center gap-1 px-3 py-1 rounded-full border border-accent-500/30 bg-black/40 text-accent-200 text-xs uppercase tracking-widest hover:bg-accent-500/20 transition-colors disabled:opacity-40"
+              >
+                <Lightbulb className="w-3 h-3" /> {t('table.hint')}
+              </button>
+              {!hotSeat && (
+                <button
+                  onClick={handleUndo}
+                  disabled={!log?.actions.some(({ action }) => action.seat === HUMAN)}
+                  className="flex items-center gap-1 px-3 py-1 rounded-full border border-accent-500/30 bg-black/40 text-accent-200 text-xs uppercase tracking-widest hover:bg-accent-500/20 transition-colors disabled:opacity-40"
+                >
+                  <Undo2 className="w-3 h-3" /> {t('table.undo')}
+                </button>
+              )}
+            </div>
+          )}
+          {hints && (
+            <ol className="bg-black/50 border border-accent-500/20 rounded-lg px-4 py-2 text-xs text-stone-300 space-y-1 max-w-md">
+              {hints.map(({ card, reasons }, idx) => (
+                <li key={card.id} className={idx === 0 ? 'text-accent-200' : ''}>
+                  <span className="font-mono mr-2">{idx + 1}.</span>
+                  <span className="font-bold">{tx(cardMsg(card))}</span>: {reasons.map(reason => tx(reason)).join(t('reasons.separator'))}
+                </li>
+              ))}
+            </ol>
+          )}
         </div>
       </main>
 
-      {/* Suit Selector Modal */}
+      {game && log && !replay && (
+        <HistoryPanel
+          log={log}
+          seats={seats}
+          revealSeat={game.phase === 'finished' || handHidden || watching ? null : viewer}
+          onExport={handleExport}
+          onImport={handleImport}
+        />
+      )}
+
+      {game && !replay && game.phase !== 'finished' && !handHidden && !watching && assistAllowed && (
+        <CoachPanel game={game} seat={viewer} onAsk={() => setAssisted(true)} />
+      )}
+
+      {game && !replay && watching && (
+        <WatchPanel
+          seats={seats}
+          entries={watched}
+          paused={watchPaused}
+          speed={watchSpeed}
+          faceUp={watchFaceUp}
+          canStep={game.phase === 'playing' && !landing}
+          onPausedChange={setWatchPaused}
+          onStep={playAiTurn}
+          onSpeedChange={setWatchSpeed}
+          onFaceUpChange={setWatchFaceUp}
+          onBotChange={(seat, bot) => setSeats(prev => prev.map((config, idx) => (idx === seat ? { ...config, bot } : config)))}
+        />
+      )}
+
+      {/* Pass-and-play Handoff */}
       <AnimatePresence>
-        {showSuitSelector && (
-          <motion.div 
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            exit={{ opacity: 0 }}
-            className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-md p-4"
-          >
-            <motion.div 
-              initial={{ scale: 0.9, y: 20 }}
-              animate={{ scale: 1, y: 0 }}
-              className="bg-emerald-800 border border-white/20 p-8 rounded-3xl shadow-2xl max-w-sm w-full text-center"
-            >
-              <h2 className="text-2xl font-bold mb-2">Wild 8!</h2>
-              <p className="text-emerald-200 mb-8">Choose the next suit to play</p>
-              
-              <div className="grid grid-cols-2 gap-4">
-                {SUITS.map((suit) => (
-                  <button
-                    key={suit}
-                    onClick={() => handleSuitSelect(suit)}
-                    className="flex flex-col items-center gap-2 p-4 bg-white/10 hover:bg-white/20 rounded-2xl border border-white/10 transition-all group"
-                  >
-                    <div className="w-12 h-12 group-hover:scale-110 transition-transform">
-                      {SUIT_ICONS[suit]}
-                    </div>
-                    <span className="capitalize font-medium text-sm">{suit}</span>
-                  </button>
-                ))}
-              </div>
-            </motion.div>
-          </motion.div>
+        {game && handHidden && game.phase !== 'finished' && !replay && (
+          <HandoffScreen name={seats[viewer].name} onReveal={() => setRevealedFor(viewer)} />
         )}
       </AnimatePresence>
 
+      {/* Suit Selector Modal */}
+      <SuitSelector open={showSuitSelector} onSelect={handleSuitSelect} />
+
       {/* Game Over Overlay */}
       <AnimatePresence>
         {gameStatus !== 'playing' && gameStatus !== 'idle' && (
           <motion.div 
+            ref={gameOverRef}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="game-over-title"
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
             className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-xl p-4"
@@ -456,22 +872,55 @@ export default function App() {
                 <Trophy className="w-16 h-16 text-black" />
               </div>
               
-              <h2 className="text-5xl font-black mb-2 tracking-tighter uppercase">
-                {gameStatus === 'player_won' ? 'Victory!' : 'Defeat!'}
+              <h2 id="game-over-title" className="text-5xl font-black mb-2 tracking-tighter uppercase">
+                {watching
+                  ? t(matchOver !== null ? 'over.matchOver' : 'over.handOver')
+                  : matchOver !== null
+                    ? t(seats[matchOver].kind === 'human' ? 'over.matchWon' : 'over.matchLost')
+                    : t(gameStatus === 'player_won' ? 'over.victory' : 'over.defeat')}
               </h2>
-              <p className="text-emerald-300 text-xl mb-12">
-                {gameStatus === 'player_won' 
-                  ? 'You cleared your hand like a pro.' 
-                  : 'The AI was too fast this time.'}
+              <p className="text-emerald-300 text-xl mb-8">
+                {matchOver !== null
+                  ? t('over.reachedTarget', { name: seats[matchOver].name, target: match!.target })
+                  : gameStatus === 'player_won' 
+                    ? (hotSeat ? t('over.seatCleared', { name: seats[game!.winner!].name }) : t('over.youCleared'))
+                    : t(watching ? 'over.seatCleared' : 'over.tooFast', { name: seats[game!.winner!].name })}
               </p>
+
+              {match && match.hands.length > 0 && (
+                <div className="mb-8 max-w-xl mx-auto">
+                  <Scoreboard match={match} seats={seats} />
+                </div>
+              )}
               
+              {daily && (
+                <p className="mb-8 text-sm text-accent-200">
+                  {daily.ranked ? (dailyResult ? tx(dailyResult) : t('over.submitting')) : t('over.practiceRun')}
+                </p>
+              )}
+
               <button
-                onClick={initGame}
+                onClick={daily ? () => { setGame(null); setShowDaily(true); } : matchOver !== null ? (watching ? () => dealMatch(seats) : initGame) : nextHand}
                 className="group flex items-center gap-3 bg-white text-black px-8 py-4 rounded-full font-bold text-lg hover:bg-emerald-400 transition-all mx-auto"
               >
-                Play Again
+                {t(daily ? 'over.leaderboard' : matchOver !== null ? 'over.newMatch' : 'over.nextHand')}
                 <ChevronRight className="w-5 h-5 group-hover:translate-x-1 transition-transform" />
               </button>
+
+              <div className="mt-6 flex justify-center gap-6 text-xs uppercase tracking-[0.3em] text-accent-300/80">
+                <button onClick={handleExport} className="hover:text-accent-200 transition-colors">{t('over.exportReplay')}</button>
+                <button
+                  onClick={() => log && setReplay({ seats, log, states: replayStates(log) })}
+                  className="hover:text-accent-200 transition-colors"
+                >
+                  {t('over.watchReplay')}
+                </button>
+              </div>
+              {log && (
+                <div className="mt-4 text-xs uppercase tracking-[0.3em] text-accent-300/80">
+                  <CoachReview log={log} seats={seats} />
+                </div>
+              )}
             </motion.div>
           </motion.div>
         )}
@@ -483,13 +932,15 @@ export default function App() {
           <motion.div 
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
-            className="fixed inset-0 z-50 flex items-center justify-center bg-[#0a0a0a] p-4"
+            className="fixed inset-0 z-50 flex items-center justify-center bg-[var(--table-color)] p-4"
           >
             {/* Background Image for Start Screen - Traditional Painting Style */}
-            <div className="absolute inset-0 opacity-60 bg-[url('https://picsum.photos/id/1015/1920/1080?grayscale')] bg-cover bg-center"></div>
+            <div className="absolute inset-0 opacity-60 table-art bg-cover bg-center"></div>
             <div className="absolute inset-0 bg-gradient-to-b from-black/60 via-transparent to-black"></div>
             <div className="absolute inset-0 bg-[#3d2b1f]/20 mix-blend-sepia"></div>
 
+            <SettingsMenu className="absolute top-4 right-4 z-20" />
+
             <div className="max-w-md w-full text-center relative z-10">
               <motion.div 
                 initial={{ y: -30, opacity: 0 }}
@@ -497,39 +948,165 @@ export default function App() {
                 transition={{ duration: 1, ease: "easeOut" }}
                 className="mb-12"
               >
-                <div className="font-calligraphy text-amber-500 text-3xl mb-4 tracking-[0.8em] opacity-80">泰山石敢当</div>
+                <div className="font-calligraphy text-accent-500 text-3xl mb-4 tracking-[0.8em] opacity-80">泰山石敢当</div>
                 <h1 className="text-8xl font-black tracking-tighter uppercase text-white drop-shadow-[0_10px_20px_rgba(0,0,0,0.8)] flex flex-col items-center">
                   <span className="text-2xl font-serif-sc tracking-[1em] mb-2 opacity-60">FENG SHUI</span>
                   <div className="flex items-center gap-4">
                     <span className="font-calligraphy">泰山</span>
-                    <span className="text-amber-500 font-calligraphy">八点</span>
+                    <span className="text-accent-500 font-calligraphy">八点</span>
                   </div>
                 </h1>
-                <div className="h-[2px] w-48 bg-gradient-to-r from-transparent via-amber-600 to-transparent mx-auto mt-6"></div>
+                <div className="h-[2px] w-48 bg-gradient-to-r from-transparent via-accent-600 to-transparent mx-auto mt-6"></div>
               </motion.div>
               
-              <div className="space-y-6 mb-16 text-stone-200 text-xl font-serif-sc leading-relaxed">
-                <p className="tracking-[0.3em] drop-shadow-md">五行轮转 · 顺天应时</p>
-                <p className="tracking-[0.2em] text-amber-400/90 italic">“八”为乾坤之变，可定风水之局。</p>
-                <p className="tracking-[0.3em] opacity-80">登泰山而小天下，清残牌而定胜负。</p>
+              <div className="space-y-6 mb-10 text-stone-200 text-xl font-serif-sc leading-relaxed">
+                <p className="tracking-[0.3em] drop-shadow-md">{t('start.motto1')}</p>
+                <p className="tracking-[0.2em] text-accent-400/90 italic">{t('start.motto2')}</p>
+                <p className="tracking-[0.3em] opacity-80">{t('start.motto3')}</p>
               </div>
 
-              <motion.button
-                whileHover={{ scale: 1.05, boxShadow: "0 0 40px rgba(217,119,6,0.5)" }}
-                whileTap={{ scale: 0.95 }}
-                onClick={initGame}
-                className="w-full bg-gradient-to-b from-amber-600 to-amber-800 text-white py-5 rounded-lg font-bold text-2xl hover:from-amber-500 hover:to-amber-700 transition-all shadow-2xl border border-amber-400/40 tracking-[0.5em] font-calligraphy"
-              >
-                开启征程
-              </motion.button>
+              <div className="mb-4 flex items-center justify-center gap-2 font-serif-sc">
+                <span className="text-accent-400 tracking-[0.3em] text-sm mr-2">{t('start.players')}</span>
+                {Array.from({ length: MAX_SEATS - MIN_SEATS + 1 }, (_, i) => MIN_SEATS + i).map((count) => (
+                  <button
+                    key={count}
+                    onClick={() => setSeatCount(count)}
+                    className={`w-9 h-9 rounded-full text-sm border transition-colors ${seatCount === count ? 'bg-accent-600 border-accent-400 text-white' : 'border-accent-500/30 text-accent-200 hover:bg-accent-500/10'}`}
+                  >
+                    {count}
+                  </button>
+                ))}
+              </div>
+
+              <div className="mb-4 grid grid-cols-2 sm:grid-cols-3 gap-2 font-serif-sc">
+                {Array.from({ length: seatCount - 1 }, (_, i) => (
+                  <label key={i} className="flex items-center gap-2 text-xs text-stone-300">
+                    <span className="whitespace-nowrap">{t('seat.numbered', { n: i + 2 })}</span>
+                    <select
+                      value={seatBots[i]}
+                      onChange={(e) => setSeatBots(prev => prev.map((bot, j) => (j === i ? e.target.value : bot)))}
+                      className="flex-1 min-w-0 bg-black/60 border border-accent-500/30 rounded px-2 py-1 text-xs text-stone-200"
+                    >
+                      {listBots().map((bot) => (
+                        <option key={bot.name} value={bot.name} title={botDescription(t, bot)}>{botLabel(t, bot)}</option>
+                      ))}
+                      <option value={HUMAN_SEAT} title={t('start.humanSeatTitle')}>{t('start.humanSeat')}</option>
+                    </select>
+                  </label>
+                ))}
+              </div>
+
+              <MatchSettings
+                target={matchTarget}
+                scoring={scoring}
+                onTargetChange={setMatchTarget}
+                onScoringChange={setScoring}
+              />
+
+              <RulesPanel rules={rules} seatCount={seatCount} onChange={setRules} />
+
+              <ProfilePicker profile={profile} onChange={handleProfileChange} onShowStats={() => setShowStats(true)} />
+
+              <div className={`grid gap-4 ${savedGame ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                {savedGame && (
+                  <motion.button
+                    whileHover={{ scale: 1.05, boxShadow: "0 0 40px rgba(217,119,6,0.5)" }}
+                    whileTap={{ scale: 0.95 }}
+                    onClick={continueGame}
+                    className="w-full bg-black/60 text-accent-100 py-5 rounded-lg font-bold text-2xl hover:bg-black/40 transition-all shadow-2xl border border-accent-400/40 tracking-[0.3em] font-calligraphy"
+                  >
+                    {t('start.continue')}
+                  </motion.button>
+                )}
+                <motion.button
+                  whileHover={{ scale: 1.05, boxShadow: "0 0 40px rgba(217,119,6,0.5)" }}
+                  whileTap={{ scale: 0.95 }}
+                  onClick={initGame}
+                  className={`w-full bg-gradient-to-b from-accent-600 to-accent-800 text-white py-5 rounded-lg font-bold text-2xl hover:from-accent-500 hover:to-accent-700 transition-all shadow-2xl border border-accent-400/40 ${savedGame ? 'tracking-[0.3em]' : 'tracking-[0.5em]'} font-calligraphy`}
+                >
+                  {t('start.begin')}
+                </motion.button>
+              </div>
+              {saveError && (
+                <p className="mt-2 text-xs text-rose-300" title={tx(saveError)}>{t('start.saveUnusable')}</p>
+              )}
+
+              <div className="mt-4 flex justify-center gap-6">
+                <button
+                  onClick={() => setShowDaily(true)}
+                  className="text-xs uppercase tracking-[0.3em] text-accent-300/80 hover:text-accent-200 transition-colors"
+                >
+                  {t('start.daily')}
+                </button>
+                <button
+                  onClick={startWatching}
+                  className="text-xs uppercase tracking-[0.3em] text-accent-300/80 hover:text-accent-200 transition-colors"
+                >
+                  {t('start.watch')}
+                </button>
+                <button
+                  onClick={() => setOnline(true)}
+                  className="text-xs uppercase tracking-[0.3em] text-accent-300/80 hover:text-accent-200 transition-colors"
+                >
+                  {t('start.online')}
+                </button>
+                <button
+                  onClick={handleImport}
+                  className="text-xs uppercase tracking-[0.3em] text-accent-300/80 hover:text-accent-200 transition-colors"
+                >
+                  {t('start.openReplay')}
+                </button>
+              </div>
+              {importError && (
+                <p className="mt-2 text-xs text-rose-300" title={tx(importError)}>{t('status.importFailed')}</p>
+              )}
             </div>
           </motion.div>
         )}
       </AnimatePresence>
 
+      {/* Online Play */}
+      <AnimatePresence>
+        {online && (
+          <OnlineGame seatCount={seatCount} rules={rules} onExit={() => setOnline(false)} />
+        )}
+      </AnimatePresence>
+
+      {/* Daily Challenge */}
+      <AnimatePresence>
+        {showDaily && (
+          <DailyChallenge profile={profile} onPlay={startDaily} onClose={() => setShowDaily(false)} />
+        )}
+      </AnimatePresence>
+
+      {/* Statistics */}
+      <AnimatePresence>
+        {showStats && profile && (
+          <StatsScreen profile={profile} onClose={() => setShowStats(false)} />
+        )}
+      </AnimatePresence>
+
+      {/* Replay Viewer */}
+      <AnimatePresence>
+        {replay && (
+          <ReplayViewer
+            seats={replay.seats}
+            log={replay.log}
+            states={replay.states}
+            onClose={() => setReplay(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      <Announcer message={tx(message)} actions={spoken} />
+
+      <CardFlights flights={flights} onLand={land} />
+
+      <UpdatePrompt />
+
       {/* Footer / Info */}
       <footer className="p-4 text-center text-emerald-500/50 text-[10px] uppercase tracking-[0.2em] font-mono">
-        Built with React & Tailwind • Tina's Crazy Eights v1.0
+        {t('app.footer')}
       </footer>
     </div>
   );
@@ -0,0 +1,23 @@
+import { useI18n } from '../i18n/I18nProvider';
+
+export interface Announcement {
+  id: number;
+  text: string;
+}
+
+/**
+ * Screen-reader only. `actions` is a log of what other seats did, read as
+ * lines are added; `message` is the status line, read whenever it changes.
+ */
+export default function Announcer({ message, actions }: { message: string; actions: Announcement[] }) {
+  const { t } = useI18n();
+
+  return (
+    <div className="sr-only">
+      <div role="log" aria-live="polite" aria-label={t('table.opponentActions')}>
+        {actions.map(({ id, text }) => <p key={id}>{text}</p>)}
+      </div>
+      <div role="status" aria-live="polite">{message}</div>
+    </div>
+  );
+}
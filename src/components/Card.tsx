@@ -0,0 +1,150 @@
+import React, { useRef } from 'react';
+import { motion } from 'motion/react';
+import type { PanInfo } from 'motion/react';
+import { Heart, Diamond, Club, Spade, Star } from 'lucide-react';
+import { isJoker } from '../game/deck';
+import { cardMsg } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+import { cssImage } from '../theme';
+import { useTheme } from '../theme/ThemeProvider';
+import type { CardData, Suit } from '../game/types';
+
+const SUIT_ICONS = { hearts: Heart, diamonds: Diamond, clubs: Club, spades: Spade };
+
+/** A filled suit pip in the active theme's colour for that suit. */
+export const SuitIcon = ({ suit, className = 'w-full h-full' }: { suit: Suit; className?: string }) => {
+  const { theme } = useTheme();
+  const Icon = SUIT_ICONS[suit];
+  const color = theme.face.suits[suit];
+  return <Icon className={className} style={{ color, fill: color }} />;
+};
+
+/** A card's pip: its suit, or a star in the joker's colour. */
+const Pip = ({ card, className }: { card: CardData; className?: string }) => {
+  const { theme } = useTheme();
+  if (!isJoker(card)) return <SuitIcon suit={card.suit} className={className} />;
+  const color = theme.face.suits[card.suit];
+  return <Star className={className ?? 'w-full h-full'} style={{ color, fill: color }} />;
+};
+
+const Card = ({ 
+  card, 
+  isFaceUp = true, 
+  onClick, 
+  isPlayable = false, 
+  isSmall = false,
+  isDimmed = false,
+  isClickable = isPlayable,
+  label,
+  tabIndex,
+  isFlying = false,
+  onDragEnd,
+  className = ""
+}: { 
+  card?: CardData; 
+  isFaceUp?: boolean; 
+  onClick?: () => void; 
+  isPlayable?: boolean;
+  isSmall?: boolean;
+  /** Fades the card, e.g. to set off the playable ones. */
+  isDimmed?: boolean;
+  /** Defaults to `isPlayable`; set it to accept clicks without the highlight. */
+  isClickable?: boolean;
+  /** Accessible name; defaults to e.g. "8 of hearts, playable" or "face-down card". */
+  label?: string;
+  /** For roving focus in a hand; cards with `onClick` are otherwise tabbable. */
+  tabIndex?: number;
+  /** Drawn by a card flight: fills its box and skips the entrance animation. */
+  isFlying?: boolean;
+  /** Makes the card draggable; it springs back to its place unless the drop plays it. */
+  onDragEnd?: (info: PanInfo) => void;
+  className?: string;
+  key?: React.Key;
+}) => {
+  const { t, tx } = useI18n();
+  const { theme } = useTheme();
+  const { face, back } = theme;
+  /** A drag ends in a click on the same card; that click is not a play. */
+  const dragged = useRef(false);
+  const cardContent = isFaceUp && card ? (
+    <div
+      className={`relative w-full h-full rounded-lg border-2 ${isPlayable ? 'border-accent-500 shadow-lg shadow-accent-500/50 scale-105' : ''} flex flex-col p-1 sm:p-2 select-none overflow-hidden`}
+      style={{ backgroundColor: face.color, borderColor: isPlayable ? undefined : face.border }}
+    >
+      {/* Subtle paper texture overlay */}
+      {face.texture && <div className="absolute inset-0 opacity-5 pointer-events-none" style={{ backgroundImage: cssImage(face.texture) }}></div>}
+      
+      <div className="flex flex-col items-center self-start z-10" style={{ color: face.suits[card.suit] }}>
+        <span className="text-xs sm:text-sm font-serif-sc font-bold leading-none">{isJoker(card) ? 'JK' : card.rank}</span>
+        <Pip card={card} className="w-2 h-2 sm:w-3 sm:h-3" />
+      </div>
+      
+      <div className={`absolute inset-0 flex items-center justify-center p-4 ${isJoker(card) ? 'opacity-30' : 'opacity-10'}`}>
+        <Pip card={card} />
+      </div>
+
+      <div className="flex flex-col items-center self-end rotate-180 z-10" style={{ color: face.suits[card.suit] }}>
+        <span className="text-xs sm:text-sm font-serif-sc font-bold leading-none">{isJoker(card) ? 'JK' : card.rank}</span>
+        <Pip card={card} className="w-2 h-2 sm:w-3 sm:h-3" />
+      </div>
+    </div>
+  ) : (
+    <div className="w-full h-full rounded-lg border-2 border-accent-600/50 flex items-center justify-center p-1 sm:p-2 relative overflow-hidden" style={{ backgroundColor: back.color }}>
+      {back.image && <div className="absolute inset-0 opacity-40 bg-cover bg-center" style={{ backgroundImage: cssImage(back.image) }}></div>}
+      <div className="absolute inset-0 bg-gradient-to-tr from-accent-900/40 to-transparent"></div>
+      <div className="w-full h-full border border-accent-500/30 rounded flex items-center justify-center z-10">
+        <div className="flex flex-col items-center text-accent-500/60">
+          {back.title && <div className="font-calligraphy text-3xl sm:text-5xl drop-shadow-lg">{back.title}</div>}
+          {back.subtitle && <div className="text-[8px] sm:text-[10px] uppercase tracking-[0.3em] font-serif-sc mt-1">{back.subtitle}</div>}
+        </div>
+      </div>
+      {/* Decorative corners */}
+      <div className="absolute top-1 left-1 w-2 h-2 border-t border-l border-accent-500/40"></div>
+      <div className="absolute top-1 right-1 w-2 h-2 border-t border-r border-accent-500/40"></div>
+      <div className="absolute bottom-1 left-1 w-2 h-2 border-b border-l border-accent-500/40"></div>
+      <div className="absolute bottom-1 right-1 w-2 h-2 border-b border-r border-accent-500/40"></div>
+    </div>
+  );
+
+  const name = label ?? (isFaceUp && card
+    ? (isPlayable ? t('card.playable', { card: cardMsg(card) }) : tx(cardMsg(card)))
+    : t('card.faceDown'));
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key !== 'Enter' && e.key !== ' ') return;
+    e.preventDefault();
+    if (isClickable) onClick?.();
+  };
+
+  return (
+    <motion.div
+      role={onClick ? 'button' : 'img'}
+      aria-label={name}
+      aria-disabled={onClick ? !isClickable : undefined}
+      tabIndex={onClick ? (tabIndex ?? 0) : undefined}
+      onKeyDown={onClick ? onKeyDown : undefined}
+      data-card={card?.id ?? ''}
+      layout={!isFlying}
+      initial={isFlying ? false : { scale: 0.8, opacity: 0 }}
+      animate={{ scale: 1, opacity: isDimmed ? 0.4 : 1 }}
+      whileHover={isPlayable ? { y: -10, scale: 1.05 } : {}}
+      drag={!!onDragEnd}
+      dragSnapToOrigin
+      whileDrag={{ scale: 1.1, zIndex: 30 }}
+      onPointerDown={() => { dragged.current = false; }}
+      onDragStart={() => { dragged.current = true; }}
+      onDragEnd={(_, info) => onDragEnd?.(info)}
+      onClick={isClickable ? () => !dragged.current && onClick?.() : undefined}
+      className={`
+        ${isFlying ? 'w-full h-full' : isSmall ? 'w-12 h-16 sm:w-16 sm:h-24' : 'w-16 h-24 sm:w-24 sm:h-36'} 
+        cursor-pointer relative transition-shadow rounded-lg
+        focus-visible:outline-none focus-visible:ring-4 focus-visible:ring-accent-300
+        ${className}
+      `}
+    >
+      <div className="w-full h-full" aria-hidden="true">{cardContent}</div>
+    </motion.div>
+  );
+};
+
+export default Card;
@@ -0,0 +1,41 @@
+import { useLayoutEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import Card from './Card';
+import { anchorRect } from '../hooks/useCardFlights';
+import type { Flight, Rect } from '../hooks/useCardFlights';
+
+const CardFlight = ({ flight, onLand }: { flight: Flight; onLand: (key: number) => void; key?: number }) => {
+  const [to, setTo] = useState<Rect | null>(null);
+
+  // The landing spot exists once the state the card flies into has rendered.
+  useLayoutEffect(() => {
+    const rect = anchorRect(flight.to);
+    if (rect) setTo(rect);
+    else onLand(flight.key);
+  }, []);
+
+  if (!to) return null;
+  const { from } = flight;
+  return (
+    <motion.div
+      className="absolute left-0 top-0"
+      initial={{ x: from.left, y: from.top, width: from.width, height: from.height }}
+      animate={{ x: to.left, y: to.top, width: to.width, height: to.height }}
+      transition={{ duration: flight.duration, delay: flight.delay, ease: 'easeInOut' }}
+      onAnimationComplete={() => onLand(flight.key)}
+    >
+      <Card card={flight.card} isFaceUp={flight.faceUp} isFlying />
+    </motion.div>
+  );
+};
+
+/** Draws the cards in flight above the table; they are decoration, so screen readers skip them. */
+export default function CardFlights({ flights, onLand }: { flights: Flight[]; onLand: (key: number) => void }) {
+  return (
+    <div className="fixed inset-0 z-40 pointer-events-none" aria-hidden="true">
+      {flights.map(flight => (
+        <CardFlight key={flight.key} flight={flight} onLand={onLand} />
+      ))}
+    </div>
+  );
+}
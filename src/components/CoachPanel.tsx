@@ -0,0 +1,134 @@
+import { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { ChevronDown, ChevronUp, GraduationCap, Loader2 } from 'lucide-react';
+import { seatView } from '../game/bot';
+import type { Advice } from '../game/coach';
+import type { GameLog } from '../game/replay';
+import type { SeatConfig } from '../game/seats';
+import type { GameState } from '../game/types';
+import type { Message } from '../i18n';
+import { apiErrorMessage, requestAdvice, requestReview } from '../utils/api';
+import { useI18n } from '../i18n/I18nProvider';
+
+/** Asks the coach for a move from `seat`'s point of view; the advice is dropped once the game moves on. */
+export default function CoachPanel({
+  game,
+  seat,
+  onAsk,
+}: {
+  game: GameState;
+  seat: number;
+  /** Called whenever advice is requested, so the game can be marked assisted. */
+  onAsk: () => void;
+}) {
+  const { t, tx, language } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [advice, setAdvice] = useState<Advice | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<Message | null>(null);
+
+  useEffect(() => {
+    setAdvice(null);
+    setError(null);
+  }, [game]);
+
+  const yourTurn = game.current === seat && game.phase !== 'finished';
+
+  const ask = async () => {
+    onAsk();
+    setLoading(true);
+    try {
+      setAdvice(await requestAdvice(seatView(game, seat), language));
+      setError(null);
+    } catch (err) {
+      setError(apiErrorMessage(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed bottom-4 left-4 z-40 w-72 max-w-[calc(100vw-2rem)] font-serif-sc">
+      <div className="bg-black/70 backdrop-blur-md border border-accent-500/30 rounded-xl overflow-hidden shadow-2xl">
+        <button
+          onClick={() => setOpen(o => !o)}
+          className="w-full flex items-center justify-between px-4 py-2 text-accent-200 text-xs uppercase tracking-widest hover:bg-white/5"
+        >
+          <span className="flex items-center gap-2"><GraduationCap className="w-4 h-4" /> {t('coach.title')}</span>
+          {open ? <ChevronDown className="w-4 h-4" /> : <ChevronUp className="w-4 h-4" />}
+        </button>
+        <AnimatePresence>
+          {open && (
+            <motion.div
+              initial={{ height: 0 }}
+              animate={{ height: 'auto' }}
+              exit={{ height: 0 }}
+              className="overflow-hidden"
+            >
+              <div className="px-4 py-3 space-y-2 text-xs text-stone-300">
+                {advice && (
+                  <>
+                    <p className="text-stone-200 leading-relaxed">{tx(advice.reasoning)}</p>
+                    <p className="text-[10px] uppercase tracking-widest text-stone-500">{t('coach.via', { source: advice.source })}</p>
+                  </>
+                )}
+                {error && <p className="text-rose-300">{tx(error)}</p>}
+                {!advice && !error && (
+                  <p className="text-stone-400">{t(yourTurn ? 'coach.ask' : 'coach.yourTurnOnly')}</p>
+                )}
+              </div>
+              <button
+                onClick={ask}
+                disabled={!yourTurn || loading}
+                className="w-full flex items-center justify-center gap-1 py-2 text-xs text-accent-300 hover:bg-white/5 border-t border-accent-500/20 disabled:opacity-40"
+              >
+                {loading && <Loader2 className="w-3 h-3 animate-spin" />} {t('coach.suggest')}
+              </button>
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </div>
+    </div>
+  );
+}
+
+/** A short review of a finished game, fetched on request. */
+export function CoachReview({ log, seats }: { log: GameLog; seats: SeatConfig[] }) {
+  const { t, tx, language } = useI18n();
+  const [review, setReview] = useState<Message[] | null>(null);
+  const [error, setError] = useState<Message | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setReview(null);
+    setError(null);
+  }, [log.seed]);
+
+  const ask = async () => {
+    setLoading(true);
+    try {
+      setReview((await requestReview(log, seats, language)).review);
+      setError(null);
+    } catch (err) {
+      setError(apiErrorMessage(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (error) {
+    return <p className="max-w-xl mx-auto text-sm normal-case tracking-normal text-rose-300">{tx(error)}</p>;
+  }
+  if (review !== null) {
+    return (
+      <p className="max-w-xl mx-auto text-left text-sm normal-case tracking-normal text-stone-300 whitespace-pre-line bg-black/40 border border-accent-500/20 rounded-lg p-4">
+        {review.map(line => t(line.key, line.params)).join('\n')}
+      </p>
+    );
+  }
+  return (
+    <button onClick={ask} disabled={loading} className="hover:text-accent-200 transition-colors disabled:opacity-50">
+      {t(loading ? 'coach.reviewing' : 'coach.review')}
+    </button>
+  );
+}
@@ -0,0 +1,152 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { CalendarDays, X } from 'lucide-react';
+import { dailyKey, dailyPreset } from '../game/daily';
+import type { DailyBoard, DailyRun } from '../game/daily';
+import type { Profile } from '../game/history';
+import type { Message } from '../i18n';
+import { apiErrorMessage, fetchDailyBoard, startDailyAttempt } from '../utils/api';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+import { useI18n } from '../i18n/I18nProvider';
+
+/** Picks a challenge day and shows its leaderboard. Only today's first attempt per profile is ranked. */
+export default function DailyChallenge({
+  profile,
+  onPlay,
+  onClose,
+}: {
+  profile: Profile | null;
+  onPlay: (run: DailyRun) => void;
+  onClose: () => void;
+}) {
+  const trapRef = useFocusTrap<HTMLDivElement>();
+  const { t, tx } = useI18n();
+  const today = dailyKey();
+  const [date, setDate] = useState(today);
+  const [board, setBoard] = useState<DailyBoard | null>(null);
+  const [error, setError] = useState<Message | null>(null);
+
+  useEffect(() => {
+    // A slow answer for a date no longer shown must not replace the current one.
+    let cancelled = false;
+    setBoard(null);
+    fetchDailyBoard(date, profile?.id).then(
+      (next) => {
+        if (cancelled) return;
+        setBoard(next);
+        setError(null);
+      },
+      (err) => {
+        if (!cancelled) setError(apiErrorMessage(err));
+      },
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [date, profile?.id]);
+
+  const canRank = date === today && profile !== null && board !== null && board.attempt === null;
+
+  const playRanked = async () => {
+    if (!profile) return;
+    try {
+      await startDailyAttempt(date, profile.id);
+      onPlay({ date, ranked: true });
+    } catch (err) {
+      setError(apiErrorMessage(err));
+    }
+  };
+
+  return (
+    <motion.div
+      ref={trapRef}
+      role="dialog"
+      aria-modal="true"
+      aria-label={t('daily.title')}
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[60] bg-[#0a0a0a]/95 backdrop-blur-xl flex flex-col text-stone-100 font-serif-sc"
+    >
+      <div className="flex items-center justify-between p-4 border-b border-accent-500/20">
+        <h2 className="font-calligraphy text-2xl text-accent-200 tracking-widest">{t('daily.title')}</h2>
+        <button onClick={onClose} className="p-2 rounded-full hover:bg-white/10 text-accent-400" title={t('common.close')}>
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 max-w-2xl w-full mx-auto space-y-6">
+        <div className="flex flex-wrap items-center justify-center gap-3 text-sm">
+          <CalendarDays className="w-4 h-4 text-accent-400" />
+          <input
+            type="date"
+            value={date}
+            max={today}
+            onChange={(e) => e.target.value && setDate(e.target.value)}
+            className="bg-black/60 border border-accent-500/30 rounded px-2 py-1 text-stone-200"
+          />
+          <span className="text-accent-300">{t('daily.rules', { preset: t(`preset.${dailyPreset(date).id}`) })}</span>
+        </div>
+
+        <div className="flex flex-col items-center gap-2">
+          {canRank ? (
+            <button
+              onClick={playRanked}
+              className="bg-gradient-to-b from-accent-600 to-accent-800 text-white px-8 py-3 rounded-lg font-bold tracking-[0.3em] border border-accent-400/40 hover:from-accent-500 hover:to-accent-700 transition-all"
+            >
+              {t('daily.playRanked')}
+            </button>
+          ) : (
+            <button
+              onClick={() => onPlay({ date, ranked: false })}
+              className="bg-black/60 text-accent-100 px-8 py-3 rounded-lg font-bold tracking-[0.3em] border border-accent-400/40 hover:bg-black/40 transition-all"
+            >
+              {t('daily.practice')}
+            </button>
+          )}
+          <p className="text-xs text-stone-400">
+            {date !== today
+              ? t('daily.pastNote')
+              : !profile
+                ? t('daily.pickProfile')
+                : board?.attempt
+                  ? t('daily.attemptUsed', { name: profile.name })
+                  : t('daily.oneAttempt')}
+          </p>
+        </div>
+
+        {error && <p className="text-center text-xs text-rose-300">{tx(error)}</p>}
+
+        {board && (board.leaderboard.length === 0 ? (
+          <p className="text-center text-stone-400">{t('daily.empty')}</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-[10px] uppercase tracking-[0.3em] text-accent-400/80">
+                <th className="py-2">#</th>
+                <th className="py-2">{t('daily.player')}</th>
+                <th className="py-2 text-right">{t('daily.result')}</th>
+                <th className="py-2 text-right">{t('daily.turns')}</th>
+                <th className="py-2 text-right">{t('daily.draws')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {board.leaderboard.map((entry, idx) => (
+                <tr
+                  key={entry.profileId}
+                  className={`border-t border-accent-500/10 ${entry.profileId === profile?.id ? 'text-accent-200' : ''}`}
+                >
+                  <td className="py-2 font-mono">{idx + 1}</td>
+                  <td className="py-2">{entry.name}</td>
+                  <td className="py-2 text-right">{t(entry.won ? 'daily.won' : 'daily.lost')}</td>
+                  <td className="py-2 text-right font-mono">{entry.turns}</td>
+                  <td className="py-2 text-right font-mono">{entry.draws}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ))}
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,29 @@
+import Card from './Card';
+
+/** Cards per extra layer drawn under the top of the pile. */
+const CARDS_PER_LAYER = 26;
+const MAX_LAYERS = 3;
+
+/** The draw pile: thicker for larger shoes, an empty outline once it runs out. */
+export default function DeckStack({ count }: { count: number }) {
+  if (count === 0) {
+    return <div className="w-16 h-24 sm:w-24 sm:h-36 rounded-lg border-2 border-dashed border-accent-500/30" />;
+  }
+  const layers = Math.min(Math.floor((count - 1) / CARDS_PER_LAYER), MAX_LAYERS);
+
+  return (
+    <div className="relative">
+      {Array.from({ length: layers }, (_, idx) => (
+        <div
+          key={idx}
+          aria-hidden="true"
+          className="absolute inset-0"
+          style={{ transform: `translate(${(layers - idx) * 2}px, ${(layers - idx) * 2}px)` }}
+        >
+          <Card isFaceUp={false} />
+        </div>
+      ))}
+      <Card isFaceUp={false} />
+    </div>
+  );
+}
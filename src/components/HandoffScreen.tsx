@@ -0,0 +1,35 @@
+import { motion } from 'motion/react';
+import { Eye } from 'lucide-react';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+import { useI18n } from '../i18n/I18nProvider';
+
+/** Covers the table between pass-and-play turns so nobody sees the next hand early. */
+export default function HandoffScreen({ name, onReveal }: { name: string; onReveal: () => void }) {
+  const trapRef = useFocusTrap<HTMLDivElement>();
+  const { t } = useI18n();
+
+  return (
+    <motion.div
+      ref={trapRef}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="handoff-title"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[45] flex items-center justify-center bg-[#0a0a0a] p-4 font-serif-sc"
+    >
+      <div className="text-center">
+        <p className="text-accent-400 tracking-[0.5em] text-sm mb-4">传递设备</p>
+        <h2 id="handoff-title" className="text-4xl font-bold text-accent-100 mb-2">{t('handoff.title', { name })}</h2>
+        <p className="text-stone-400 mb-10">{t('handoff.lookAway')}</p>
+        <button
+          onClick={onReveal}
+          className="inline-flex items-center gap-3 bg-gradient-to-b from-accent-600 to-accent-800 text-white px-8 py-4 rounded-lg font-bold tracking-[0.2em] border border-accent-400/40 hover:from-accent-500 hover:to-accent-700 transition-all"
+        >
+          <Eye className="w-5 h-5" aria-hidden="true" /> {t('handoff.reveal', { name })}
+        </button>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,70 @@
+import { useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { ChevronDown, ChevronUp, Download, ScrollText, Upload } from 'lucide-react';
+import { formatEntry, logEntries } from '../game/replay';
+import type { GameLog } from '../game/replay';
+import type { SeatConfig } from '../game/seats';
+import { useI18n } from '../i18n/I18nProvider';
+
+const formatTime = (at: number, locale: string) =>
+  new Date(at).toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export default function HistoryPanel({
+  log,
+  seats,
+  revealSeat,
+  onExport,
+  onImport,
+}: {
+  log: GameLog;
+  seats: SeatConfig[];
+  /** Only this seat's draws are shown face-up; null reveals everything. */
+  revealSeat: number | null;
+  onExport: () => void;
+  onImport: () => void;
+}) {
+  const { language, t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const entries = useMemo(() => (open ? logEntries(log) : []), [log, open]);
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 w-72 max-w-[calc(100vw-2rem)] font-serif-sc">
+      <div className="bg-black/70 backdrop-blur-md border border-accent-500/30 rounded-xl overflow-hidden shadow-2xl">
+        <button
+          onClick={() => setOpen(o => !o)}
+          className="w-full flex items-center justify-between px-4 py-2 text-accent-200 text-xs uppercase tracking-widest hover:bg-white/5"
+        >
+          <span className="flex items-center gap-2"><ScrollText className="w-4 h-4" /> {t('history.title', { count: log.actions.length })}</span>
+          {open ? <ChevronDown className="w-4 h-4" /> : <ChevronUp className="w-4 h-4" />}
+        </button>
+        <AnimatePresence>
+          {open && (
+            <motion.div
+              initial={{ height: 0 }}
+              animate={{ height: 'auto' }}
+              exit={{ height: 0 }}
+              className="overflow-hidden"
+            >
+              <ol className="max-h-64 overflow-y-auto px-4 py-2 space-y-1 text-xs text-stone-300 flex flex-col-reverse">
+                {entries.map((entry, idx) => (
+                  <li key={idx} className="flex gap-2">
+                    <span className="font-mono text-stone-500 shrink-0">{formatTime(entry.at, language)}</span>
+                    <span>{formatEntry(entry, seats, revealSeat, t)}</span>
+                  </li>
+                ))}
+              </ol>
+              <div className="flex border-t border-accent-500/20">
+                <button onClick={onExport} className="flex-1 flex items-center justify-center gap-1 py-2 text-xs text-accent-300 hover:bg-white/5">
+                  <Download className="w-3 h-3" /> {t('history.export')}
+                </button>
+                <button onClick={onImport} className="flex-1 flex items-center justify-center gap-1 py-2 text-xs text-accent-300 hover:bg-white/5 border-l border-accent-500/20">
+                  <Upload className="w-3 h-3" /> {t('start.openReplay')}
+                </button>
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </div>
+    </div>
+  );
+}
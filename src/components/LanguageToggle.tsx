@@ -0,0 +1,25 @@
+import { Languages } from 'lucide-react';
+import { LANGUAGES } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+
+/** Switches the interface language; each option is labelled in its own language. */
+export default function LanguageToggle({ className = '' }: { className?: string }) {
+  const { language, setLanguage, t } = useI18n();
+
+  return (
+    <div role="group" aria-label={t('language.label')} className={`flex items-center gap-1 text-xs ${className}`}>
+      <Languages className="w-4 h-4 text-accent-400" aria-hidden="true" />
+      {LANGUAGES.map(({ id, label }) => (
+        <button
+          key={id}
+          lang={id}
+          onClick={() => setLanguage(id)}
+          aria-pressed={language === id}
+          className={`px-2 py-0.5 rounded-full border transition-colors ${language === id ? 'bg-accent-600 border-accent-400 text-white' : 'border-accent-500/30 text-accent-200 hover:bg-accent-500/10'}`}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+}
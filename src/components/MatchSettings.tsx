@@ -0,0 +1,51 @@
+import { MATCH_TARGETS } from '../game/match';
+import type { ScoringTable } from '../game/match';
+import type { MessageKey } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+
+const SCORE_FIELDS: { key: keyof ScoringTable; label: string; title: MessageKey }[] = [
+  { key: 'eight', label: '8', title: 'match.eightPoints' },
+  { key: 'face', label: 'J Q K', title: 'match.facePoints' },
+  { key: 'ace', label: 'A', title: 'match.acePoints' },
+];
+
+export default function MatchSettings({
+  target,
+  scoring,
+  onTargetChange,
+  onScoringChange,
+}: {
+  target: number;
+  scoring: ScoringTable;
+  onTargetChange: (target: number) => void;
+  onScoringChange: (scoring: ScoringTable) => void;
+}) {
+  const { t } = useI18n();
+
+  return (
+    <div className="mb-4 flex flex-wrap items-center justify-center gap-2 font-serif-sc">
+      <span className="text-accent-400 tracking-[0.3em] text-sm mr-2">{t('match.target')}</span>
+      {MATCH_TARGETS.map((value) => (
+        <button
+          key={value}
+          onClick={() => onTargetChange(value)}
+          className={`px-3 py-1 rounded-full text-xs border transition-colors ${target === value ? 'bg-accent-600 border-accent-400 text-white' : 'border-accent-500/30 text-accent-200 hover:bg-accent-500/10'}`}
+        >
+          {value}
+        </button>
+      ))}
+      {SCORE_FIELDS.map(({ key, label, title }) => (
+        <label key={key} title={t(title)} className="flex items-center gap-1 text-xs text-stone-300 ml-2">
+          {label}
+          <input
+            type="number"
+            min={0}
+            value={scoring[key]}
+            onChange={(e) => onScoringChange({ ...scoring, [key]: Math.max(0, Number(e.target.value) || 0) })}
+            className="w-12 bg-black/60 border border-accent-500/30 rounded px-1 py-0.5 text-xs text-stone-200"
+          />
+        </label>
+      ))}
+    </div>
+  );
+}
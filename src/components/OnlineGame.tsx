@@ -0,0 +1,306 @@
+import { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { ChevronRight, Info, LogOut, Users } from 'lucide-react';
+import Card, { SuitIcon } from './Card';
+import DeckStack from './DeckStack';
+import OpponentSeat, { opponentLayout } from './OpponentSeat';
+import SuitSelector from './SuitSelector';
+import { useOnlineRoom } from '../hooks/useOnlineRoom';
+import type { LobbyMessage, TableMessage } from '../hooks/useOnlineRoom';
+import type { PublicSeat } from '../game/protocol';
+import type { CardData, RuleSet, Suit } from '../game/types';
+import type { Translate } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+
+const NAME_KEY = 'crazy-eights:online-name';
+
+const seatName = (seat: PublicSeat, t: Translate) =>
+  typeof seat.name === 'string' ? seat.name : t(seat.name.key, seat.name.params);
+
+const seatTag = (seat: PublicSeat, t: Translate) =>
+  seat.kind === 'ai' ? t('online.tagAi') : seat.connected ? '' : t('online.tagAway');
+
+// --- Lobby ---
+
+function WaitingRoom({ lobby, seat, onStart }: { lobby: LobbyMessage; seat: number; onStart: () => void }) {
+  const { t } = useI18n();
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const secondsLeft = Math.max(0, Math.ceil((lobby.fillAt - now) / 1000));
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <div className="text-xs uppercase tracking-[0.3em] text-accent-400/80 mb-2">{t('online.roomCode')}</div>
+        <div className="font-mono text-5xl tracking-[0.4em] text-accent-100">{lobby.code}</div>
+      </div>
+      <ul className="space-y-2 text-left">
+        {lobby.seats.map((player, idx) => (
+          <li
+            key={idx}
+            className={`flex items-center justify-between px-4 py-2 rounded border ${idx === seat ? 'border-accent-400 bg-accent-500/10' : 'border-accent-500/20 bg-black/30'}`}
+          >
+            <span className={player ? 'text-stone-100' : 'text-stone-500 italic'}>
+              {player ? seatName(player, t) : t('online.waiting')}
+            </span>
+            {idx === 0 && <span className="text-[10px] uppercase tracking-widest text-accent-400/70">{t('online.host')}</span>}
+          </li>
+        ))}
+      </ul>
+      <p className="text-xs text-stone-400">
+        {t('online.fillIn', { seconds: secondsLeft })}
+      </p>
+      {seat === 0 && (
+        <button
+          onClick={onStart}
+          className="w-full bg-gradient-to-b from-accent-600 to-accent-800 text-white py-3 rounded-lg font-bold tracking-[0.3em] border border-accent-400/40 hover:from-accent-500 hover:to-accent-700 transition-all"
+        >
+          {t('online.startNow')}
+        </button>
+      )}
+    </div>
+  );
+}
+
+// --- Table ---
+
+function OnlineTable({
+  table,
+  seat,
+  onMove,
+}: {
+  table: TableMessage;
+  seat: number;
+  onMove: ReturnType<typeof useOnlineRoom>['move'];
+}) {
+  const { t } = useI18n();
+  const { view, seats, current, winner } = table;
+  const myTurn = current === seat && view.phase === 'playing';
+  const playable = new Set(view.playable.map(card => card.id));
+  const layout = opponentLayout(
+    Array.from({ length: seats.length - 1 }, (_, i) => (seat + 1 + i) % seats.length),
+  );
+
+  const message = winner !== null
+    ? (winner === seat ? t('online.youWonHand') : t('online.seatWonHand', { name: seats[winner].name }))
+    : current === seat
+      ? t(view.phase === 'choosingSuit' ? 'online.chooseSuit' : 'online.yourTurn')
+      : t('status.thinking', { name: seats[current].name });
+
+  const opponent = (idx: number, vertical = false) => (
+    <OpponentSeat
+      key={idx}
+      name={seatName(seats[idx], t)}
+      tag={seatTag(seats[idx], t)}
+      human={seats[idx].kind === 'human'}
+      cardCount={view.handSizes[idx]}
+      isActive={current === idx}
+      vertical={vertical}
+    />
+  );
+
+  const handleCard = (card: CardData) => {
+    if (myTurn && playable.has(card.id)) onMove({ type: 'play', cardId: card.id });
+  };
+
+  return (
+    <main className="flex-1 relative p-4 flex flex-col items-center justify-between max-w-6xl mx-auto w-full">
+      <div className="w-full flex justify-center gap-8 min-h-24 sm:min-h-36">
+        {layout.top.map((idx) => opponent(idx))}
+      </div>
+
+      <div className="w-full flex items-center justify-between gap-4">
+        <div className="flex flex-col gap-6">{layout.left.map((idx) => opponent(idx, true))}</div>
+        <div className="flex flex-col items-center gap-8 my-4 mx-auto">
+          <div className="flex items-center gap-8 sm:gap-16">
+            <div
+              className={`relative ${myTurn && view.canDraw ? 'cursor-pointer' : 'opacity-50'}`}
+              onClick={() => myTurn && view.canDraw && onMove({ type: 'draw' })}
+            >
+              <DeckStack count={view.deckSize} />
+              <div className="absolute -bottom-6 left-1/2 -translate-x-1/2 text-xs font-mono text-emerald-300 uppercase tracking-widest">
+                {t('table.deck', { count: view.deckSize })}
+              </div>
+            </div>
+
+            <div className="relative">
+              <AnimatePresence mode="popLayout">
+                <motion.div
+                  key={view.topDiscard?.id}
+                  initial={{ x: 100, opacity: 0, rotate: 45 }}
+                  animate={{ x: 0, opacity: 1, rotate: 0 }}
+                  transition={{ type: "spring", stiffness: 200, damping: 20 }}
+                >
+                  <Card card={view.topDiscard} />
+                </motion.div>
+              </AnimatePresence>
+              {view.activeSuit && (
+                <div className="absolute -top-4 -right-4 w-10 h-10 p-2 bg-white rounded-full shadow-xl flex items-center justify-center border-2 border-yellow-400 z-10">
+                  <SuitIcon suit={view.activeSuit} />
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="bg-black/50 backdrop-blur-sm px-6 py-2 rounded-full border border-accent-500/30 flex items-center gap-3 shadow-2xl">
+            <div className={`w-2 h-2 rounded-full ${current === seat ? 'bg-accent-400 animate-pulse' : 'bg-stone-600'}`} />
+            <p className="text-sm sm:text-base font-medium text-accent-50 tracking-wide">{message}</p>
+          </div>
+        </div>
+        <div className="flex flex-col gap-6">{layout.right.map((idx) => opponent(idx, true))}</div>
+      </div>
+
+      <div className="w-full flex flex-col items-center gap-4">
+        <div className="flex flex-wrap justify-center gap-2 sm:gap-4 max-w-4xl">
+          <AnimatePresence>
+            {view.hand.map((card) => (
+              <Card
+                key={card.id}
+                card={card}
+                isPlayable={myTurn && playable.has(card.id)}
+                onClick={() => handleCard(card)}
+              />
+            ))}
+          </AnimatePresence>
+        </div>
+        {myTurn && view.pendingDraw > 0 && (
+          <div className="text-yellow-400 text-xs font-bold uppercase tracking-tighter flex items-center gap-1">
+            <Info className="w-3 h-3" /> {t('table.drawOrStack', { count: view.pendingDraw })}
+          </div>
+        )}
+        {myTurn && view.hasDrawn && view.canPass && (
+          <button
+            onClick={() => onMove({ type: 'pass' })}
+            className="px-4 py-1 rounded-full border border-accent-500/40 bg-black/40 text-accent-200 text-xs uppercase tracking-widest hover:bg-accent-500/20 transition-colors"
+          >
+            {t('table.pass')}
+          </button>
+        )}
+      </div>
+
+      <SuitSelector
+        open={view.phase === 'choosingSuit' && current === seat && winner === null}
+        onSelect={(suit: Suit) => onMove({ type: 'chooseSuit', suit })}
+      />
+    </main>
+  );
+}
+
+// --- Screen ---
+
+/** Online play against other browsers; the server deals, runs the rules and fills empty seats with AI. */
+export default function OnlineGame({
+  seatCount,
+  rules,
+  onExit,
+}: {
+  seatCount: number;
+  rules: RuleSet;
+  onExit: () => void;
+}) {
+  const { t, tx } = useI18n();
+  const room = useOnlineRoom();
+  const [name, setName] = useState(() => localStorage.getItem(NAME_KEY) ?? '');
+  const [code, setCode] = useState('');
+
+  const playerName = () => {
+    const trimmed = name.trim() || t('online.defaultName');
+    localStorage.setItem(NAME_KEY, trimmed);
+    return trimmed;
+  };
+
+  const exit = () => {
+    room.leave();
+    onExit();
+  };
+
+  const inRoom = room.seat !== null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="fixed inset-0 z-[60] flex flex-col bg-[#1a2a1a] text-stone-100 overflow-auto"
+    >
+      <header className="p-4 flex justify-between items-center bg-black/40 border-b border-accent-500/20">
+        <div className="flex items-center gap-3 font-serif-sc">
+          <Users className="w-5 h-5 text-accent-400" />
+          <span className="tracking-[0.3em] text-accent-100">{t('online.title')}</span>
+          {room.table && <span className="font-mono text-xs text-accent-400/80">{room.table.code}</span>}
+        </div>
+        <button
+          onClick={exit}
+          className="p-2 hover:bg-white/10 rounded-full transition-colors text-accent-400"
+          title={t('online.leave')}
+        >
+          <LogOut className="w-5 h-5" />
+        </button>
+      </header>
+
+      {room.error && (
+        <p className="text-center text-xs text-rose-300 mt-3">{tx(room.error)}</p>
+      )}
+
+      {inRoom && room.table ? (
+        <OnlineTable table={room.table} seat={room.seat} onMove={room.move} />
+      ) : (
+        <div className="flex-1 flex items-center justify-center p-4">
+          <div className="max-w-sm w-full text-center">
+            {inRoom && room.lobby ? (
+              <WaitingRoom lobby={room.lobby} seat={room.seat} onStart={room.start} />
+            ) : (
+              <div className="space-y-4">
+                <input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder={t('online.yourName')}
+                  maxLength={20}
+                  className="w-full bg-black/60 border border-accent-500/30 rounded px-3 py-2 text-stone-100"
+                />
+                <button
+                  disabled={room.connecting}
+                  onClick={() => room.create(playerName(), seatCount, rules)}
+                  className="w-full flex items-center justify-center gap-2 bg-gradient-to-b from-accent-600 to-accent-800 text-white py-3 rounded-lg font-bold tracking-[0.2em] border border-accent-400/40 hover:from-accent-500 hover:to-accent-700 transition-all disabled:opacity-50"
+                >
+                  {t('online.create', { count: seatCount })} <ChevronRight className="w-4 h-4" />
+                </button>
+                <div className="flex gap-2">
+                  <input
+                    value={code}
+                    onChange={(e) => setCode(e.target.value.toUpperCase())}
+                    placeholder={t('online.codePlaceholder')}
+                    maxLength={5}
+                    className="flex-1 min-w-0 bg-black/60 border border-accent-500/30 rounded px-3 py-2 font-mono tracking-[0.4em] text-stone-100"
+                  />
+                  <button
+                    disabled={room.connecting || code.trim().length === 0}
+                    onClick={() => room.join(code, playerName())}
+                    className="px-5 rounded-lg border border-accent-400/40 text-accent-100 hover:bg-accent-500/10 transition-colors disabled:opacity-50"
+                  >
+                    {t('online.join')}
+                  </button>
+                </div>
+                {room.savedSession && (
+                  <button
+                    onClick={() => room.rejoin(room.savedSession!)}
+                    className="text-xs uppercase tracking-[0.3em] text-accent-300/80 hover:text-accent-200 transition-colors"
+                  >
+                    {t('online.rejoin', { code: room.savedSession.code })}
+                  </button>
+                )}
+                <p className="text-xs text-stone-400">
+                  {t('online.note')}
+                </p>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,60 @@
+import { Cpu, User } from 'lucide-react';
+import Card from './Card';
+import type { CardData } from '../game/types';
+
+/** Face-down cards beyond this are summarised by the count badge. */
+const MAX_VISIBLE_CARDS = 10;
+
+/** Splits opponents (in turn order) into the left column, top row and right column. */
+export const opponentLayout = (opponents: number[]) => {
+  const side = opponents.length === 1 ? 0 : opponents.length === 5 ? 2 : 1;
+  return {
+    left: opponents.slice(0, side).reverse(),
+    top: opponents.slice(side, opponents.length - side),
+    right: opponents.slice(opponents.length - side),
+  };
+};
+
+export default function OpponentSeat({
+  seat,
+  name,
+  tag,
+  human = false,
+  cardCount,
+  cards,
+  isActive,
+  vertical = false,
+}: {
+  /** Marks where cards fly to and from this seat's hand; tables without card flights leave it out. */
+  seat?: number;
+  name: string;
+  /** Small label after the name, e.g. the bot's strategy. */
+  tag?: string;
+  human?: boolean;
+  cardCount: number;
+  /** Shows these cards face-up instead, e.g. when watching AIs play. */
+  cards?: CardData[];
+  isActive: boolean;
+  vertical?: boolean;
+  key?: number;
+}) {
+  const visible = Math.min(cardCount, MAX_VISIBLE_CARDS);
+
+  return (
+    <div data-flight={seat === undefined ? undefined : `seat-${seat}`} className={`flex ${vertical ? 'flex-row' : 'flex-col'} items-center gap-2`}>
+      <div className={`flex items-center gap-2 px-3 py-1 rounded-full border text-xs font-medium transition-colors ${isActive ? 'bg-accent-500/30 border-accent-400 text-accent-100' : 'bg-black/30 border-accent-500/20 text-stone-300'}`}>
+        {human ? <User className="w-3 h-3 text-accent-400" /> : <Cpu className="w-3 h-3 text-accent-400" />}
+        <span>{name}</span>
+        <span className="uppercase text-[9px] tracking-widest text-accent-400/70">{tag}</span>
+        <span className="font-mono">{cardCount}</span>
+      </div>
+      <div className={`flex ${vertical ? 'flex-col -space-y-12 sm:-space-y-20' : '-space-x-8 sm:-space-x-12'}`}>
+        {cards
+          ? cards.map(card => <Card key={card.id} card={card} isSmall className="z-0" />)
+          : Array.from({ length: visible }, (_, idx) => (
+            <Card key={idx} isFaceUp={false} isSmall className="z-0" />
+          ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { useEffect, useState } from 'react';
+import { BarChart3, Plus } from 'lucide-react';
+import type { Message } from '../i18n';
+import { apiErrorMessage, createProfile, listProfiles } from '../utils/api';
+import { loadProfileId } from '../utils/storage';
+import type { Profile } from '../game/history';
+import { useI18n } from '../i18n/I18nProvider';
+
+/** Chooses who finished games are recorded for; hidden behind a note when the server is down. */
+export default function ProfilePicker({
+  profile,
+  onChange,
+  onShowStats,
+}: {
+  profile: Profile | null;
+  onChange: (profile: Profile | null) => void;
+  onShowStats: () => void;
+}) {
+  const { t, tx } = useI18n();
+  const [profiles, setProfiles] = useState<Profile[] | null>(null);
+  const [newName, setNewName] = useState('');
+  const [error, setError] = useState<Message | null>(null);
+
+  useEffect(() => {
+    listProfiles().then((list) => {
+      setProfiles(list);
+      const saved = list.find(p => p.id === loadProfileId());
+      if (!profile && saved) onChange(saved);
+    }, (err) => setError(apiErrorMessage(err)));
+  }, []);
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return;
+    try {
+      const created = await createProfile(newName);
+      setProfiles(prev => [...(prev ?? []).filter(p => p.id !== created.id), created]);
+      setNewName('');
+      setError(null);
+      onChange(created);
+    } catch (err) {
+      setError(apiErrorMessage(err));
+    }
+  };
+
+  if (!profiles) {
+    return error ? <p className="mb-4 text-xs text-stone-500">{tx(error)}</p> : null;
+  }
+
+  return (
+    <div className="mb-4 flex flex-wrap items-center justify-center gap-2 font-serif-sc">
+      <span className="text-accent-400 tracking-[0.3em] text-sm mr-2">{t('profile.title')}</span>
+      <select
+        value={profile?.id ?? ''}
+        onChange={(e) => onChange(profiles.find(p => p.id === Number(e.target.value)) ?? null)}
+        className="bg-black/60 border border-accent-500/30 rounded px-2 py-1 text-xs text-stone-200"
+      >
+        <option value="">{t('profile.guest')}</option>
+        {profiles.map((p) => (
+          <option key={p.id} value={p.id}>{p.name}</option>
+        ))}
+      </select>
+      <input
+        value={newName}
+        onChange={(e) => setNewName(e.target.value)}
+        onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+        placeholder={t('profile.newName')}
+        maxLength={24}
+        className="w-28 bg-black/60 border border-accent-500/30 rounded px-2 py-1 text-xs text-stone-200"
+      />
+      <button onClick={handleCreate} className="p-1 rounded-full text-accent-300 hover:bg-accent-500/10" title={t('profile.create')}>
+        <Plus className="w-4 h-4" />
+      </button>
+      {profile && (
+        <button onClick={onShowStats} className="p-1 rounded-full text-accent-300 hover:bg-accent-500/10" title={t('header.statistics')}>
+          <BarChart3 className="w-4 h-4" />
+        </button>
+      )}
+      {error && <p className="w-full text-xs text-rose-300">{tx(error)}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { useEffect, useMemo, useState } from 'react';
+import { motion } from 'motion/react';
+import { Pause, Play, SkipBack, StepBack, StepForward, X } from 'lucide-react';
+import Card, { SuitIcon } from './Card';
+import { topDiscard } from '../game/engine';
+import { formatEntry, logEntries } from '../game/replay';
+import type { GameLog } from '../game/replay';
+import type { SeatConfig } from '../game/seats';
+import type { GameState } from '../game/types';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+import { useI18n } from '../i18n/I18nProvider';
+
+const SPEEDS = [0.5, 1, 2, 4];
+/** Time between steps at 1x. */
+const BASE_STEP_MS = 1000;
+
+export default function ReplayViewer({
+  seats,
+  log,
+  states,
+  onClose,
+}: {
+  seats: SeatConfig[];
+  log: GameLog;
+  states: GameState[];
+  onClose: () => void;
+}) {
+  const trapRef = useFocusTrap<HTMLDivElement>();
+  const { t } = useI18n();
+  const [step, setStep] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  const entries = useMemo(() => logEntries(log, states), [log, states]);
+  const last = states.length - 1;
+  const state = states[step];
+  const top = topDiscard(state);
+
+  useEffect(() => {
+    if (!playing) return;
+    if (step >= last) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setStep(s => Math.min(s + 1, last)), BASE_STEP_MS / speed);
+    return () => clearTimeout(timer);
+  }, [playing, step, speed, last]);
+
+  const caption = entries
+    .filter(e => e.step === step)
+    .map(e => formatEntry(e, seats, null, t))
+    .join(t('text.separator'));
+
+  return (
+    <motion.div
+      ref={trapRef}
+      role="dialog"
+      aria-modal="true"
+      aria-label={t('replay.title')}
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[60] bg-[#0a0a0a]/95 backdrop-blur-xl flex flex-col text-stone-100 font-serif-sc"
+    >
+      <div className="flex items-center justify-between p-4 border-b border-accent-500/20">
+        <h2 className="font-calligraphy text-2xl text-accent-200 tracking-widest">{t('replay.title')}</h2>
+        <span className="font-mono text-xs text-stone-400">{t('replay.seed', { seed: log.seed })}</span>
+        <button onClick={onClose} className="p-2 rounded-full hover:bg-white/10 text-accent-400" title={t('common.close')}>
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4 max-w-5xl w-full mx-auto">
+        <div className="flex items-center justify-center gap-8 py-2">
+          <div className="text-center">
+            <Card isFaceUp={false} isSmall />
+            <div className="mt-1 text-xs font-mono text-emerald-300">{t('table.deck', { count: state.deck.length })}</div>
+          </div>
+          <div className="relative">
+            <Card card={top} isSmall />
+            {state.activeSuit && (
+              <div className="absolute -top-3 -right-3 w-8 h-8 p-1.5 bg-white rounded-full border-2 border-yellow-400">
+                <SuitIcon suit={state.activeSuit} />
+              </div>
+            )}
+          </div>
+        </div>
+
+        {state.hands.map((hand, seat) => (
+          <div
+            key={seat}
+            className={`rounded-xl p-2 border ${state.current === seat && state.phase !== 'finished' ? 'border-accent-400 bg-accent-500/10' : 'border-white/5'}`}
+          >
+            <div className="text-xs mb-1 text-accent-200">
+              {seats[seat].name} · {hand.length}
+              {state.winner === seat && ` · ${t('replay.winner')}`}
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {hand.map((card) => (
+                <Card key={card.id} card={card} isSmall />
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="p-4 border-t border-accent-500/20 space-y-3">
+        <p className="text-center text-sm text-accent-50 min-h-5">{caption}</p>
+        <input
+          type="range"
+          min={0}
+          max={last}
+          value={step}
+          onChange={(e) => setStep(Number(e.target.value))}
+          className="w-full accent-accent-500"
+        />
+        <div className="flex items-center justify-center gap-3">
+          <button onClick={() => { setPlaying(false); setStep(0); }} className="p-2 rounded-full hover:bg-white/10" title={t('replay.restart')}>
+            <SkipBack className="w-5 h-5" />
+          </button>
+          <button onClick={() => { setPlaying(false); setStep(s => Math.max(s - 1, 0)); }} className="p-2 rounded-full hover:bg-white/10" title={t('replay.stepBack')}>
+            <StepBack className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => {
+              if (step >= last) setStep(0);
+              setPlaying(p => !p);
+            }}
+            className="p-3 rounded-full bg-accent-600 hover:bg-accent-500"
+            title={t(playing ? 'replay.pause' : 'replay.play')}
+          >
+            {playing ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+          </button>
+          <button onClick={() => { setPlaying(false); setStep(s => Math.min(s + 1, last)); }} className="p-2 rounded-full hover:bg-white/10" title={t('replay.stepForward')}>
+            <StepForward className="w-5 h-5" />
+          </button>
+          <select
+            value={speed}
+            onChange={(e) => setSpeed(Number(e.target.value))}
+            className="bg-black/60 border border-accent-500/30 rounded px-2 py-1 text-xs"
+          >
+            {SPEEDS.map((s) => <option key={s} value={s}>{s}×</option>)}
+          </select>
+          <span className="font-mono text-xs text-stone-400 w-16 text-right">{step} / {last}</span>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
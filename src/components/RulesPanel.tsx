@@ -0,0 +1,121 @@
+import { MAX_DECKS } from '../game/deck';
+import { RULE_PRESETS } from '../game/rules';
+import type { DrawPolicy, JackEffect, JokerEffect, RuleSet } from '../game/types';
+import type { MessageKey } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+
+const TOGGLES: { key: 'drawTwo' | 'stackDrawTwo' | 'queenSkips' | 'aceReverses' | 'reshuffleDiscards' | 'allowEightFirst'; label: MessageKey }[] = [
+  { key: 'drawTwo', label: 'rules.drawTwo' },
+  { key: 'stackDrawTwo', label: 'rules.stackDrawTwo' },
+  { key: 'queenSkips', label: 'rules.queenSkips' },
+  { key: 'aceReverses', label: 'rules.aceReverses' },
+  { key: 'reshuffleDiscards', label: 'rules.reshuffleDiscards' },
+  { key: 'allowEightFirst', label: 'rules.allowEightFirst' },
+];
+
+const JACK_OPTIONS: { value: JackEffect; label: MessageKey }[] = [
+  { value: 'none', label: 'rules.jack.none' },
+  { value: 'drawFive', label: 'rules.jack.drawFive' },
+  { value: 'wild', label: 'rules.jack.wild' },
+];
+
+const DRAW_OPTIONS: { value: DrawPolicy; label: MessageKey }[] = [
+  { value: 'unlimited', label: 'rules.draw.unlimited' },
+  { value: 'drawOneThenPass', label: 'rules.draw.drawOneThenPass' },
+  { value: 'untilPlayable', label: 'rules.draw.untilPlayable' },
+];
+
+const JOKER_OPTIONS: { value: JokerEffect; label: MessageKey }[] = [
+  { value: 'none', label: 'rules.joker.none' },
+  { value: 'wild', label: 'rules.joker.wild' },
+  { value: 'wildDrawFour', label: 'rules.joker.wildDrawFour' },
+];
+
+/** From this many seats a single deck tends to run dry. */
+const CROWDED_TABLE = 5;
+
+const sameRules = (a: RuleSet, b: RuleSet) =>
+  (Object.keys(a) as (keyof RuleSet)[]).every(key => a[key] === b[key]);
+
+export default function RulesPanel({
+  rules,
+  seatCount,
+  onChange,
+}: {
+  rules: RuleSet;
+  seatCount: number;
+  onChange: (rules: RuleSet) => void;
+}) {
+  const { t } = useI18n();
+
+  return (
+    <div className="mb-8 text-left bg-black/40 border border-accent-500/20 rounded-lg p-4 space-y-3 font-serif-sc">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-accent-400 tracking-[0.3em] text-sm">{t('rules.title')}</span>
+        <div className="flex gap-2">
+          {RULE_PRESETS.map((preset) => (
+            <button
+              key={preset.id}
+              onClick={() => onChange(preset.rules)}
+              className={`px-3 py-1 rounded-full text-xs border transition-colors ${sameRules(rules, preset.rules) ? 'bg-accent-600 border-accent-400 text-white' : 'border-accent-500/30 text-accent-200 hover:bg-accent-500/10'}`}
+            >
+              {t(`preset.${preset.id}`)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+        {TOGGLES.map(({ key, label }) => (
+          <label key={key} className="flex items-center gap-2 text-xs text-stone-200 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={rules[key]}
+              disabled={key === 'stackDrawTwo' && !rules.drawTwo}
+              onChange={(e) => onChange({ ...rules, [key]: e.target.checked })}
+              className="accent-accent-500"
+            />
+            {t(label)}
+          </label>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <select
+          value={rules.jackEffect}
+          onChange={(e) => onChange({ ...rules, jackEffect: e.target.value as JackEffect })}
+          className="bg-black/60 border border-accent-500/30 rounded px-2 py-1 text-xs text-stone-200"
+        >
+          {JACK_OPTIONS.map(({ value, label }) => <option key={value} value={value}>{t(label)}</option>)}
+        </select>
+        <select
+          value={rules.drawPolicy}
+          onChange={(e) => onChange({ ...rules, drawPolicy: e.target.value as DrawPolicy })}
+          className="bg-black/60 border border-accent-500/30 rounded px-2 py-1 text-xs text-stone-200"
+        >
+          {DRAW_OPTIONS.map(({ value, label }) => <option key={value} value={value}>{t(label)}</option>)}
+        </select>
+        <select
+          value={rules.decks}
+          onChange={(e) => onChange({ ...rules, decks: Number(e.target.value) })}
+          className="bg-black/60 border border-accent-500/30 rounded px-2 py-1 text-xs text-stone-200"
+        >
+          {Array.from({ length: MAX_DECKS }, (_, idx) => idx + 1).map((count) => (
+            <option key={count} value={count}>{count === 1 ? t('rules.decks.one') : t('rules.decks.many', { count })}</option>
+          ))}
+        </select>
+        <select
+          value={rules.jokerEffect}
+          onChange={(e) => onChange({ ...rules, jokerEffect: e.target.value as JokerEffect })}
+          className="bg-black/60 border border-accent-500/30 rounded px-2 py-1 text-xs text-stone-200"
+        >
+          {JOKER_OPTIONS.map(({ value, label }) => <option key={value} value={value}>{t(label)}</option>)}
+        </select>
+      </div>
+
+      {seatCount >= CROWDED_TABLE && rules.decks === 1 && !rules.reshuffleDiscards && (
+        <p className="text-[11px] text-accent-200/70">{t('rules.moreDecks', { count: seatCount })}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { matchTotals } from '../game/match';
+import type { MatchState } from '../game/match';
+import type { SeatConfig } from '../game/seats';
+import { useI18n } from '../i18n/I18nProvider';
+
+export default function Scoreboard({ match, seats }: { match: MatchState; seats: SeatConfig[] }) {
+  const { t } = useI18n();
+  const totals = matchTotals(match, seats.length);
+
+  return (
+    <div className="bg-black/50 border border-accent-500/30 rounded-2xl p-4 max-h-64 overflow-auto text-sm font-mono">
+      <table className="w-full text-right">
+        <thead>
+          <tr className="text-accent-400 text-xs uppercase tracking-widest">
+            <th className="text-left font-normal pb-2">{t('score.hand')}</th>
+            {seats.map((seat, idx) => (
+              <th key={idx} className="font-normal pb-2 px-2">{seat.name}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {match.hands.map((hand, handIdx) => (
+            <tr key={handIdx} className="border-t border-white/5">
+              <td className="text-left text-stone-400 py-1">{handIdx + 1}</td>
+              {seats.map((_, seat) => (
+                <td
+                  key={seat}
+                  className={`px-2 py-1 ${hand.winner === seat ? 'text-accent-300 font-bold' : 'text-stone-500'}`}
+                  title={t('score.leftInHand', { points: hand.penalties[seat] })}
+                >
+                  {hand.winner === seat ? `+${hand.points[seat]}` : `(${hand.penalties[seat]})`}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          <tr className="border-t border-accent-500/30 text-accent-100">
+            <td className="text-left pt-2">{t('score.total', { target: match.target })}</td>
+            {totals.map((total, seat) => (
+              <td key={seat} className="px-2 pt-2 font-bold">{total}</td>
+            ))}
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+}
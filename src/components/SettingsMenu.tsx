@@ -0,0 +1,106 @@
+import { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { AlertTriangle, Check, Settings } from 'lucide-react';
+import LanguageToggle from './LanguageToggle';
+import { useI18n } from '../i18n/I18nProvider';
+import { cssImage, themeLabel } from '../theme';
+import type { Theme } from '../theme';
+import { useTheme } from '../theme/ThemeProvider';
+
+/** A tiny table with one card on it, so the theme list shows what each one looks like. */
+const ThemeSwatch = ({ theme }: { theme: Theme }) => (
+  <span
+    className="relative w-10 h-7 shrink-0 rounded-md border border-white/20 bg-cover bg-center overflow-hidden"
+    style={{ backgroundColor: theme.table.color, backgroundImage: cssImage(theme.table.image) }}
+    aria-hidden="true"
+  >
+    <span className="absolute inset-0" style={{ backgroundColor: theme.table.shade }} />
+    <span
+      className="absolute left-1.5 top-1 w-3.5 h-5 rounded-sm border flex items-center justify-center text-[9px] font-bold leading-none"
+      style={{ backgroundColor: theme.face.color, borderColor: theme.face.border, color: theme.face.suits.hearts }}
+    >
+      8
+    </span>
+    <span
+      className="absolute right-1.5 top-1 w-3.5 h-5 rounded-sm border bg-cover bg-center"
+      style={{ backgroundColor: theme.back.color, backgroundImage: cssImage(theme.back.image), borderColor: theme.accent[600] }}
+    />
+  </span>
+);
+
+/** The gear menu: interface language and table theme. */
+export default function SettingsMenu({ className = '' }: { className?: string }) {
+  const { language, t } = useI18n();
+  const { theme, themes, setTheme, packFailures } = useTheme();
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const onPointerDown = (e: PointerEvent) => {
+      if (!ref.current?.contains(e.target as Node)) setOpen(false);
+    };
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setOpen(false);
+    };
+    document.addEventListener('pointerdown', onPointerDown);
+    document.addEventListener('keydown', onKeyDown);
+    return () => {
+      document.removeEventListener('pointerdown', onPointerDown);
+      document.removeEventListener('keydown', onKeyDown);
+    };
+  }, [open]);
+
+  return (
+    <div ref={ref} className={`relative ${className}`}>
+      <button
+        onClick={() => setOpen(o => !o)}
+        aria-expanded={open}
+        aria-haspopup="true"
+        className="p-2 hover:bg-white/10 rounded-full transition-colors text-accent-400"
+        title={t('settings.title')}
+      >
+        <Settings className="w-5 h-5" />
+      </button>
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            role="dialog"
+            aria-label={t('settings.title')}
+            initial={{ opacity: 0, y: -8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -8 }}
+            className="absolute right-0 top-full mt-2 z-[60] w-64 bg-stone-900/95 backdrop-blur-md border border-accent-500/30 rounded-xl p-4 shadow-2xl text-left text-stone-100 font-serif-sc space-y-4"
+          >
+            <LanguageToggle />
+            <div role="radiogroup" aria-label={t('settings.theme')} className="space-y-1">
+              <p className="text-xs uppercase tracking-widest text-accent-300/80 mb-2">{t('settings.theme')}</p>
+              {themes.map(option => (
+                <button
+                  key={option.id}
+                  role="radio"
+                  aria-checked={option.id === theme.id}
+                  onClick={() => setTheme(option.id)}
+                  className={`w-full flex items-center gap-3 px-2 py-1.5 rounded-lg text-sm transition-colors ${option.id === theme.id ? 'bg-accent-500/20 text-accent-100' : 'hover:bg-white/10 text-stone-300'}`}
+                >
+                  <ThemeSwatch theme={option} />
+                  <span className="flex-1 text-left">{themeLabel(t, language, option)}</span>
+                  {option.id === theme.id && <Check className="w-4 h-4 text-accent-400" aria-hidden="true" />}
+                </button>
+              ))}
+            </div>
+            {packFailures.length > 0 && (
+              <p
+                className="flex items-start gap-2 text-xs text-rose-300"
+                title={packFailures.map(({ url, error }) => `${url}: ${error}`).join('\n')}
+              >
+                <AlertTriangle className="w-4 h-4 shrink-0" aria-hidden="true" />
+                {t('settings.packErrors', { count: packFailures.length })}
+              </p>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { Download, X } from 'lucide-react';
+import { hasBot, getBot } from '../game/bots';
+import type { PlayerStats, Profile } from '../game/history';
+import { apiErrorMessage, fetchStats, historyCsvUrl } from '../utils/api';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+import { botLabel } from '../i18n';
+import type { Message } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+
+const pct = (part: number, whole: number) => (whole ? `${Math.round((part / whole) * 100)}%` : '—');
+
+function Stat({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div className="bg-black/40 border border-accent-500/20 rounded-lg p-4 text-center">
+      <div className="text-3xl font-bold text-accent-100">{value}</div>
+      <div className="mt-1 text-[10px] uppercase tracking-[0.3em] text-accent-400/80">{label}</div>
+    </div>
+  );
+}
+
+export default function StatsScreen({ profile, onClose }: { profile: Profile; onClose: () => void }) {
+  const trapRef = useFocusTrap<HTMLDivElement>();
+  const { t, tx } = useI18n();
+  const [stats, setStats] = useState<PlayerStats | null>(null);
+  const [error, setError] = useState<Message | null>(null);
+
+  useEffect(() => {
+    fetchStats(profile.id).then(setStats, (err) => setError(apiErrorMessage(err)));
+  }, [profile.id]);
+
+  return (
+    <motion.div
+      ref={trapRef}
+      role="dialog"
+      aria-modal="true"
+      aria-label={t('header.statistics')}
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[60] bg-[#0a0a0a]/95 backdrop-blur-xl flex flex-col text-stone-100 font-serif-sc"
+    >
+      <div className="flex items-center justify-between p-4 border-b border-accent-500/20">
+        <h2 className="font-calligraphy text-2xl text-accent-200 tracking-widest">{t('stats.title', { name: profile.name })}</h2>
+        <button onClick={onClose} className="p-2 rounded-full hover:bg-white/10 text-accent-400" title={t('common.close')}>
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 max-w-3xl w-full mx-auto space-y-6">
+        {error && <p className="text-sm text-rose-300">{tx(error)}</p>}
+        {stats && stats.games === 0 && (
+          <p className="text-center text-stone-400 mt-12">
+            {t(stats.assistedGames > 0 ? 'stats.onlyAssisted' : 'stats.noGames')}
+          </p>
+        )}
+        {stats && stats.games > 0 && (
+          <>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              <Stat label={t('stats.games')} value={stats.games} />
+              <Stat label={t('stats.winRate')} value={pct(stats.wins, stats.games)} />
+              <Stat label={t('stats.averageTurns')} value={stats.averageTurns.toFixed(1)} />
+              <Stat label={t('stats.currentStreak')} value={stats.currentStreak} />
+              <Stat label={t('stats.bestStreak')} value={stats.bestStreak} />
+              <Stat label={t('stats.eightFinishes')} value={pct(stats.eightFinishes, stats.games)} />
+            </div>
+
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-[10px] uppercase tracking-[0.3em] text-accent-400/80">
+                  <th className="py-2">{t('stats.opponent')}</th>
+                  <th className="py-2 text-right">{t('stats.games')}</th>
+                  <th className="py-2 text-right">{t('stats.winRate')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stats.byDifficulty.map((row) => (
+                  <tr key={row.bot} className="border-t border-accent-500/10">
+                    <td className="py-2">{hasBot(row.bot) ? botLabel(t, getBot(row.bot)) : row.bot}</td>
+                    <td className="py-2 text-right font-mono">{row.games}</td>
+                    <td className="py-2 text-right font-mono">{pct(row.wins, row.games)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {stats.assistedGames > 0 && (
+              <p className="text-xs text-stone-400">
+                {t('stats.assistedNote', { count: stats.assistedGames })}
+              </p>
+            )}
+
+            <a
+              href={historyCsvUrl(profile.id)}
+              className="inline-flex items-center gap-2 text-xs uppercase tracking-[0.3em] text-accent-300/80 hover:text-accent-200 transition-colors"
+            >
+              <Download className="w-4 h-4" /> {t('stats.export')}
+            </a>
+          </>
+        )}
+      </div>
+    </motion.div>
+  );
+}
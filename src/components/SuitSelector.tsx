@@ -0,0 +1,73 @@
+import { useEffect } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { SuitIcon } from './Card';
+import { SUITS } from '../game/deck';
+import type { Suit } from '../game/types';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+import { suitMsg } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+
+/** Keys 1–4 pick the suits in `SUITS` order. */
+function SuitDialog({ onSelect }: { onSelect: (suit: Suit) => void }) {
+  const trapRef = useFocusTrap<HTMLDivElement>();
+  const { t, tx } = useI18n();
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const suit = SUITS[Number(e.key) - 1];
+      if (!suit || e.ctrlKey || e.metaKey || e.altKey) return;
+      e.preventDefault();
+      onSelect(suit);
+    };
+    document.addEventListener('keydown', onKeyDown);
+    return () => document.removeEventListener('keydown', onKeyDown);
+  }, [onSelect]);
+
+  return (
+    <motion.div 
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-md p-4"
+    >
+      <motion.div 
+        ref={trapRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="suit-selector-title"
+        aria-describedby="suit-selector-help"
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        className="bg-emerald-800 border border-white/20 p-8 rounded-3xl shadow-2xl max-w-sm w-full text-center"
+      >
+        <h2 id="suit-selector-title" className="text-2xl font-bold mb-2">{t('suitSelector.title')}</h2>
+        <p id="suit-selector-help" className="text-emerald-200 mb-8">{t('suitSelector.prompt')}</p>
+        
+        <div className="grid grid-cols-2 gap-4">
+          {SUITS.map((suit, idx) => (
+            <button
+              key={suit}
+              onClick={() => onSelect(suit)}
+              aria-keyshortcuts={String(idx + 1)}
+              className="relative flex flex-col items-center gap-2 p-4 bg-white/10 hover:bg-white/20 rounded-2xl border border-white/10 transition-all group focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-accent-300"
+            >
+              <span className="absolute top-2 left-3 font-mono text-xs text-emerald-200/70" aria-hidden="true">{idx + 1}</span>
+              <div className="w-12 h-12 motion-safe:group-hover:scale-110 transition-transform" aria-hidden="true">
+                <SuitIcon suit={suit} />
+              </div>
+              <span className="capitalize font-medium text-sm">{tx(suitMsg(suit))}</span>
+            </button>
+          ))}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
+
+export default function SuitSelector({ open, onSelect }: { open: boolean; onSelect: (suit: Suit) => void }) {
+  return (
+    <AnimatePresence>
+      {open && <SuitDialog onSelect={onSelect} />}
+    </AnimatePresence>
+  );
+}
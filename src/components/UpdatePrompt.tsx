@@ -0,0 +1,58 @@
+import { motion, AnimatePresence } from 'motion/react';
+import { Download, RefreshCw, X } from 'lucide-react';
+import { useRegisterSW } from 'virtual:pwa-register/react';
+import { useI18n } from '../i18n/I18nProvider';
+
+/**
+ * Registers the service worker. Says once when the game can run offline,
+ * and asks before switching to a newly deployed version.
+ */
+export default function UpdatePrompt() {
+  const { t } = useI18n();
+  const {
+    needRefresh: [needRefresh, setNeedRefresh],
+    offlineReady: [offlineReady, setOfflineReady],
+    updateServiceWorker,
+  } = useRegisterSW({ onRegisterError: (error) => console.error(error) });
+
+  const dismiss = () => {
+    setNeedRefresh(false);
+    setOfflineReady(false);
+  };
+
+  return (
+    <AnimatePresence>
+      {(needRefresh || offlineReady) && (
+        <motion.div
+          role="status"
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: -20 }}
+          className="fixed top-4 left-1/2 -translate-x-1/2 z-[70] w-[calc(100vw-2rem)] max-w-md flex items-center gap-3 bg-black/80 backdrop-blur-md border border-accent-500/40 rounded-xl px-4 py-3 shadow-2xl font-serif-sc text-sm text-accent-50"
+        >
+          {needRefresh
+            ? <RefreshCw className="w-4 h-4 shrink-0 text-accent-400" aria-hidden="true" />
+            : <Download className="w-4 h-4 shrink-0 text-accent-400" aria-hidden="true" />}
+          <p className="flex-1">{t(needRefresh ? 'update.ready' : 'update.offlineReady')}</p>
+          {needRefresh ? (
+            <>
+              <button
+                onClick={() => updateServiceWorker(true)}
+                className="px-3 py-1 rounded-full bg-accent-600 hover:bg-accent-500 text-white text-xs tracking-widest transition-colors"
+              >
+                {t('update.reload')}
+              </button>
+              <button onClick={dismiss} className="px-2 py-1 text-xs text-accent-300 hover:text-accent-200 transition-colors">
+                {t('update.later')}
+              </button>
+            </>
+          ) : (
+            <button onClick={dismiss} className="p-1 rounded-full hover:bg-white/10 text-accent-400" title={t('common.close')}>
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,160 @@
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { ChevronDown, ChevronUp, Eye, Pause, Play, StepForward } from 'lucide-react';
+import type { Move } from '../game/bot';
+import { listBots } from '../game/bots';
+import type { SeatConfig } from '../game/seats';
+import type { CardData } from '../game/types';
+import { botLabel, cardMsg, msg, suitMsg } from '../i18n';
+import type { Message } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+
+/** Multiples of the normal AI pace. */
+export const WATCH_SPEEDS = [0.25, 0.5, 1, 2, 4, 8];
+
+/** One AI turn: each move it made, with the card it played and its reasons. */
+export interface WatchEntry {
+  id: number;
+  seat: number;
+  moves: { move: Move; card?: CardData; why: Message[] }[];
+}
+
+const moveMsg = ({ move, card }: WatchEntry['moves'][number]): Message => {
+  switch (move.type) {
+    case 'play':
+      return move.suit
+        ? msg('watch.move.playWild', { card: cardMsg(card!), suit: suitMsg(move.suit) })
+        : msg('watch.move.play', { card: cardMsg(card!) });
+    case 'chooseSuit': return msg('watch.move.chooseSuit', { suit: suitMsg(move.suit) });
+    case 'draw': return msg('watch.move.draw');
+    case 'pass': return msg('watch.move.pass');
+  }
+};
+
+/** Controls for a game where every seat is an AI, and why each one moved as it did. */
+export default function WatchPanel({
+  seats,
+  entries,
+  paused,
+  speed,
+  faceUp,
+  canStep,
+  onPausedChange,
+  onStep,
+  onSpeedChange,
+  onFaceUpChange,
+  onBotChange,
+}: {
+  seats: SeatConfig[];
+  /** Oldest first. */
+  entries: WatchEntry[];
+  paused: boolean;
+  speed: number;
+  faceUp: boolean;
+  canStep: boolean;
+  onPausedChange: (paused: boolean) => void;
+  onStep: () => void;
+  onSpeedChange: (speed: number) => void;
+  onFaceUpChange: (faceUp: boolean) => void;
+  /** Takes effect from the seat's next turn. */
+  onBotChange: (seat: number, bot: string) => void;
+}) {
+  const { t, tx } = useI18n();
+  const [open, setOpen] = useState(true);
+
+  return (
+    <div className="fixed bottom-4 left-4 z-40 w-80 max-w-[calc(100vw-2rem)] font-serif-sc">
+      <div className="bg-black/70 backdrop-blur-md border border-accent-500/30 rounded-xl overflow-hidden shadow-2xl">
+        <button
+          onClick={() => setOpen(o => !o)}
+          className="w-full flex items-center justify-between px-4 py-2 text-accent-200 text-xs uppercase tracking-widest hover:bg-white/5"
+        >
+          <span className="flex items-center gap-2"><Eye className="w-4 h-4" /> {t('watch.title')}</span>
+          {open ? <ChevronDown className="w-4 h-4" /> : <ChevronUp className="w-4 h-4" />}
+        </button>
+        <div className="flex items-center gap-2 px-4 py-2 border-t border-accent-500/20">
+          <button
+            onClick={() => onPausedChange(!paused)}
+            className="p-1.5 rounded-full bg-accent-600 hover:bg-accent-500 text-white transition-colors"
+            title={t(paused ? 'watch.play' : 'watch.pause')}
+          >
+            {paused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+          </button>
+          <button
+            onClick={onStep}
+            disabled={!paused || !canStep}
+            className="p-1.5 rounded-full border border-accent-500/30 text-accent-300 hover:bg-white/10 transition-colors disabled:opacity-40"
+            title={t('watch.step')}
+          >
+            <StepForward className="w-4 h-4" />
+          </button>
+          <div role="group" aria-label={t('watch.speed')} className="flex-1 flex justify-end gap-0.5">
+            {WATCH_SPEEDS.map(option => (
+              <button
+                key={option}
+                onClick={() => onSpeedChange(option)}
+                aria-pressed={speed === option}
+                className={`px-1.5 py-0.5 rounded font-mono text-[10px] transition-colors ${speed === option ? 'bg-accent-600 text-white' : 'text-accent-300 hover:bg-white/10'}`}
+              >
+                {option}×
+              </button>
+            ))}
+          </div>
+        </div>
+        <AnimatePresence>
+          {open && (
+            <motion.div
+              initial={{ height: 0 }}
+              animate={{ height: 'auto' }}
+              exit={{ height: 0 }}
+              className="overflow-hidden"
+            >
+              <div className="px-4 py-2 space-y-2 border-t border-accent-500/20 text-xs text-stone-300">
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={faceUp} onChange={(e) => onFaceUpChange(e.target.checked)} className="accent-accent-500" />
+                  {t('watch.faceUp')}
+                </label>
+                <fieldset className="grid grid-cols-2 gap-1">
+                  <legend className="sr-only">{t('watch.bots')}</legend>
+                  {seats.map((seat, idx) => (
+                    <label key={idx} className="flex items-center gap-1 min-w-0">
+                      <span className="truncate">{seat.name}</span>
+                      <select
+                        value={seat.bot}
+                        onChange={(e) => onBotChange(idx, e.target.value)}
+                        className="flex-1 min-w-0 bg-black/60 border border-accent-500/30 rounded px-1 py-0.5 text-[11px] text-stone-200"
+                      >
+                        {listBots().map((bot) => (
+                          <option key={bot.name} value={bot.name}>{botLabel(t, bot)}</option>
+                        ))}
+                      </select>
+                    </label>
+                  ))}
+                </fieldset>
+              </div>
+              <ol className="max-h-64 overflow-y-auto px-4 py-2 space-y-2 text-xs text-stone-300 flex flex-col-reverse border-t border-accent-500/20">
+                {entries.length === 0 && <li className="text-stone-400">{t('watch.waiting')}</li>}
+                {entries.map(({ id, seat, moves }) => (
+                  <li key={id}>
+                    <span className="font-bold text-accent-200">{seats[seat]?.name}</span>
+                    <ul className="pl-2 space-y-0.5">
+                      {moves.map((entry, idx) => (
+                        <li key={idx}>
+                          <span className="text-stone-200">{tx(moveMsg(entry))}</span>
+                          <span className="text-stone-400">
+                            {': '}
+                            {entry.why.length > 0 ? entry.why.map(reason => tx(reason)).join(t('reasons.separator')) : t('watch.noReasons')}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </li>
+                ))}
+              </ol>
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </div>
+    </div>
+  );
+}
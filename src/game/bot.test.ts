@@ -0,0 +1,33 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { runBotTurn, seatView } from './bot';
+import type { Bot } from './bot';
+import { createGame } from './engine';
+import { normalBot } from './strategies';
+
+test('a bot that edits its view cannot change the game', () => {
+  const vandal: Bot = {
+    ...normalBot,
+    name: 'vandal',
+    chooseMove: (view, random) => {
+      const move = normalBot.chooseMove(view, random);
+      view.hand.sort((a, b) => b.id.localeCompare(a.id)).splice(0, 1);
+      view.discardPile.length = 0;
+      view.shortSuits.forEach(suits => suits.push('hearts'));
+      view.topDiscard.suit = 'spades';
+      view.rules.drawTwo = !view.rules.drawTwo;
+      return move;
+    },
+  };
+  const state = createGame(9, undefined, 3);
+  const before = structuredClone(state);
+  runBotTurn(state, 0, vandal);
+  assert.deepEqual(state, before);
+});
+
+test('playable cards are the hand cards the engine allows', () => {
+  const state = createGame(4);
+  const view = seatView(state, 0);
+  assert.ok(view.playable.every(card => view.hand.includes(card)));
+  assert.deepEqual(seatView(state, 1).playable, []);
+});
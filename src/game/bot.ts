@@ -0,0 +1,177 @@
+import { createRng, mixSeed } from './deck';
+import { applyAction, canDraw, canPass, playableCards, topDiscard } from './engine';
+import type { Message } from '../i18n';
+import type { Action, CardData, EngineErrorCode, GameState, GamePhase, RuleSet, Suit } from './types';
+
+// --- Bot API ---
+
+/**
+ * Everything a seat is allowed to know when it is asked for a move. Other
+ * hands, the deck order and the game seed are deliberately absent.
+ */
+export interface SeatView {
+  seat: number;
+  rules: RuleSet;
+  phase: GamePhase;
+  hand: CardData[];
+  /** Cards in each seat's hand, indexed by seat. */
+  handSizes: number[];
+  topDiscard: CardData;
+  /** Every card played so far, oldest first. */
+  discardPile: CardData[];
+  activeSuit: Suit | null;
+  deckSize: number;
+  direction: 1 | -1;
+  pendingDraw: number;
+  /** Suits each seat was seen drawing on; see `GameState.shortSuits`. */
+  shortSuits: Suit[][];
+  hasDrawn: boolean;
+  turnCount: number;
+  /** Cards in `hand` that may be played right now. */
+  playable: CardData[];
+  canDraw: boolean;
+  canPass: boolean;
+}
+
+export type Move =
+  | { type: 'play'; cardId: string; suit?: Suit }
+  | { type: 'draw' }
+  | { type: 'pass' }
+  | { type: 'chooseSuit'; suit: Suit };
+
+export interface Bot {
+  /** Registry key, also used in saved seats and simulation reports. */
+  name: string;
+  label: string;
+  description?: string;
+  /**
+   * Called once per move until the turn ends, so a bot that draws is asked
+   * again with the new card in hand. Wild cards must carry a `suit`.
+   * `random` is seeded per turn; use it instead of `Math.random` to stay reproducible.
+   */
+  chooseMove(view: SeatView, random: () => number): Move;
+  /**
+   * Why the bot chose `move` in `view`, most important first, for watch mode.
+   * Only called when someone is watching, never during simulations. Without
+   * it, `explainMove` gives the general reasons for the move.
+   */
+  explain?(view: SeatView, move: Move): Message[];
+}
+
+/** One move a bot made, with what it could see when it chose it. */
+export interface Decision {
+  view: SeatView;
+  move: Move;
+}
+
+export type BotErrorCode = EngineErrorCode | 'SUIT_MISSING' | 'TOO_MANY_MOVES';
+
+/** A bot asked for something the rules do not allow; the game state is left untouched. */
+export class BotMoveError extends Error {
+  constructor(
+    readonly botName: string,
+    readonly seat: number,
+    readonly code: BotErrorCode,
+    detail: string,
+  ) {
+    super(`Bot "${botName}" (seat ${seat}) made an illegal move: ${detail}`);
+    this.name = 'BotMoveError';
+  }
+}
+
+// --- Running Bots ---
+
+/** Moves in one turn beyond this mean the bot is stuck (e.g. drawing forever). */
+const MAX_MOVES_PER_TURN = 200;
+
+const copyCard = (card: CardData): CardData => ({ ...card });
+
+/**
+ * What `seat` can see. Everything is copied, so a bot that sorts or edits its
+ * view cannot change the game; `playable` holds the same objects as `hand`.
+ */
+export const seatView = (state: GameState, seat: number): SeatView => {
+  const yourTurn = state.current === seat && state.phase === 'playing';
+  const hand = state.hands[seat].map(copyCard);
+  const playableIds = new Set(yourTurn ? playableCards(state, seat).map(c => c.id) : []);
+  return {
+    seat,
+    rules: { ...state.rules },
+    phase: state.phase,
+    hand,
+    handSizes: state.hands.map(h => h.length),
+    topDiscard: copyCard(topDiscard(state)!),
+    discardPile: state.discardPile.map(copyCard),
+    activeSuit: state.activeSuit,
+    deckSize: state.deck.length,
+    direction: state.direction,
+    pendingDraw: state.pendingDraw,
+    shortSuits: state.shortSuits.map(suits => [...suits]),
+    hasDrawn: state.hasDrawn,
+    turnCount: state.turnCount,
+    playable: hand.filter(c => playableIds.has(c.id)),
+    canDraw: yourTurn && canDraw(state),
+    canPass: yourTurn && canPass(state),
+  };
+};
+
+/** Seed for one seat's decisions on one turn, so a replayed game makes the same choices. */
+export const turnSeed = (state: GameState, seat: number): number =>
+  mixSeed(state.seed, state.turnCount, seat);
+
+/**
+ * The engine actions for a seat's move. A wild card played with a `suit`
+ * becomes a play followed by the suit choice; without one, the suit is
+ * chosen by a later move.
+ */
+export const moveToActions = (move: Move, seat: number): Action[] => {
+  switch (move.type) {
+    case 'play':
+      return move.suit
+        ? [{ type: 'play', seat, cardId: move.cardId }, { type: 'chooseSuit', seat, suit: move.suit }]
+        : [{ type: 'play', seat, cardId: move.cardId }];
+    case 'chooseSuit': return [{ type: 'chooseSuit', seat, suit: move.suit }];
+    case 'draw': return [{ type: 'draw', seat }];
+    case 'pass': return [{ type: 'pass', seat }];
+  }
+};
+
+/**
+ * Asks `bot` for moves until `seat`'s turn is over and returns the actions
+ * taken along with the resulting state and the decisions behind them. Every
+ * move is checked by the engine; the first illegal one throws a `BotMoveError`.
+ */
+export const runBotTurn = (
+  state: GameState,
+  seat: number,
+  bot: Bot,
+  random: () => number = createRng(turnSeed(state, seat)),
+): { actions: Action[]; state: GameState; decisions: Decision[] } => {
+  const actions: Action[] = [];
+  const decisions: Decision[] = [];
+  let current = state;
+
+  while (current.phase !== 'finished' && current.current === seat && current.turnCount === state.turnCount) {
+    if (actions.length >= MAX_MOVES_PER_TURN) {
+      throw new BotMoveError(bot.name, seat, 'TOO_MANY_MOVES', `still acting after ${MAX_MOVES_PER_TURN} moves.`);
+    }
+    const view = seatView(current, seat);
+    const move = bot.chooseMove(view, random);
+    decisions.push({ view, move });
+    for (const action of moveToActions(move, seat)) {
+      // Going out with a wild card ends the game before a suit is needed.
+      if (current.phase === 'finished') break;
+      const result = applyAction(current, action);
+      if (result.ok === false) {
+        throw new BotMoveError(bot.name, seat, result.error.code, result.error.message);
+      }
+      current = result.state;
+      actions.push(action);
+    }
+    if (current.phase === 'choosingSuit' && move.type === 'play') {
+      throw new BotMoveError(bot.name, seat, 'SUIT_MISSING', 'played a wild card without naming a suit.');
+    }
+  }
+
+  return { actions, state: current, decisions };
+};
@@ -0,0 +1,26 @@
+import type { Bot } from './bot';
+import { easyBot, hardBot, normalBot } from './strategies';
+
+const registry = new Map<string, Bot>();
+
+/** Makes a bot selectable by name for any AI seat. Names must be unique. */
+export const registerBot = (bot: Bot): void => {
+  if (registry.has(bot.name)) {
+    throw new Error(`A bot named "${bot.name}" is already registered.`);
+  }
+  registry.set(bot.name, bot);
+};
+
+export const getBot = (name: string): Bot => {
+  const bot = registry.get(name);
+  if (!bot) {
+    throw new Error(`Unknown bot "${name}". Registered: ${[...registry.keys()].join(', ')}`);
+  }
+  return bot;
+};
+
+export const hasBot = (name: string): boolean => registry.has(name);
+
+export const listBots = (): Bot[] => [...registry.values()];
+
+[easyBot, normalBot, hardBot].forEach(registerBot);
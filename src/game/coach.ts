@@ -0,0 +1,122 @@
+import { cardMsg, msg, suitMsg } from '../i18n';
+import type { Message } from '../i18n';
+import type { Move, SeatView } from './bot';
+import { isWild } from './engine';
+import { entryMsg, formatEntry, logEntries } from './replay';
+import type { GameLog, LogEntry } from './replay';
+import type { SeatConfig } from './seats';
+import { mostFrequentSuit, normalBot } from './strategies';
+
+/** A suggested move for the seat in `SeatView`, with the reasons as sentences. */
+export interface Advice {
+  move: Move;
+  reasoning: Message[];
+  /** Which provider answered, e.g. `gemini` or `heuristic`. */
+  source: string;
+}
+
+/** One message per line. */
+export interface GameReview {
+  review: Message[];
+  source: string;
+}
+
+/** "Play the 7 of hearts.", "Draw a card.", ... */
+export const describeMove = (move: Move, view: SeatView): Message => {
+  switch (move.type) {
+    case 'play': {
+      const card = view.hand.find(c => c.id === move.cardId);
+      const name = card ? cardMsg(card) : move.cardId;
+      return move.suit ? msg('coach.move.playWild', { card: name, suit: suitMsg(move.suit) }) : msg('coach.move.play', { card: name });
+    }
+    case 'draw': return view.pendingDraw > 0 ? msg('coach.move.drawPenalty', { count: view.pendingDraw }) : msg('coach.move.draw');
+    case 'pass': return msg('coach.move.pass');
+    case 'chooseSuit': return msg('coach.move.chooseSuit', { suit: suitMsg(move.suit) });
+  }
+};
+
+/** True if `move` is one the rules allow in `view`; used to check advice from outside. */
+export const isLegalAdvice = (move: Move, view: SeatView): boolean => {
+  if (view.phase === 'choosingSuit') return move.type === 'chooseSuit';
+  switch (move.type) {
+    case 'play': {
+      const card = view.playable.find(c => c.id === move.cardId);
+      return !!card && (!isWild(card, view.rules) || !!move.suit);
+    }
+    case 'draw': return view.canDraw;
+    case 'pass': return view.canPass;
+    case 'chooseSuit': return false;
+  }
+};
+
+// --- Heuristic Coach ---
+
+/** The Normal bot's move, explained. Works without a network. */
+export const heuristicAdvice = (view: SeatView): Advice => {
+  const move = normalBot.chooseMove(view, () => 0);
+  const reasons: Message[] = [];
+  const nearlyOut = view.handSizes.some((size, seat) => seat !== view.seat && size <= 2);
+
+  if (move.type === 'chooseSuit') {
+    reasons.push(msg('coach.why.chooseSuit', { suit: suitMsg(move.suit) }));
+  } else if (move.type === 'play') {
+    const card = view.hand.find(c => c.id === move.cardId)!;
+    if (isWild(card, view.rules)) {
+      reasons.push(msg('coach.why.wildOnly'));
+      reasons.push(msg('coach.why.wildSuit', { suit: suitMsg(move.suit!) }));
+    } else {
+      const wilds = view.playable.filter(c => isWild(c, view.rules));
+      reasons.push(card.suit === (view.activeSuit ?? view.topDiscard.suit)
+        ? msg('coach.why.follows', { suit: suitMsg(card.suit) })
+        : msg('coach.why.matchesRank', { rank: msg(`rank.${card.rank}`), suit: suitMsg(card.suit) }));
+      if (wilds.length > 0) reasons.push(msg('coach.why.keepWild'));
+      if (card.suit === mostFrequentSuit(view.hand)) reasons.push(msg('coach.why.longestSuit', { suit: suitMsg(card.suit) }));
+    }
+  } else if (move.type === 'draw') {
+    reasons.push(view.pendingDraw > 0
+      ? msg('coach.why.takePenalty', { count: view.pendingDraw })
+      : msg('coach.why.noMatch'));
+  } else {
+    reasons.push(msg(view.hasDrawn ? 'coach.why.drewAlready' : 'coach.why.deckEmpty'));
+  }
+  if (nearlyOut) reasons.push(msg('coach.why.nearlyOut'));
+
+  return { move, reasoning: [describeMove(move, view), ...reasons], source: 'heuristic' };
+};
+
+/**
+ * Entries worth commenting on: wild plays, penalty draws, reshuffles and the
+ * final card. The rest of the game is routine.
+ */
+export const keyTurns = (log: GameLog): LogEntry[] => {
+  const entries = logEntries(log);
+  const lastPlay = entries.filter(e => e.type === 'play').pop();
+  return entries.filter(e =>
+    (e.type === 'play' && (isWild(e.card, log.rules) || e === lastPlay))
+    || (e.type === 'draw' && e.cards.length > 1)
+    || e.type === 'reshuffle',
+  );
+};
+
+/** The whole game as text, one line per entry, with every card shown. */
+export const transcript = (log: GameLog, seats: SeatConfig[]): string =>
+  logEntries(log).map(e => formatEntry(e, seats)).join('\n');
+
+export const heuristicReview = (log: GameLog, seats: SeatConfig[]): GameReview => {
+  const turns = keyTurns(log);
+  const lines = turns.map(e => msg('coach.recap.line', { entry: entryMsg(e, seats) }));
+  const wildsBySeat = seats.map((_, seat) =>
+    turns.filter(e => e.type === 'play' && e.seat === seat && isWild(e.card, log.rules)).length);
+  const notes = seats
+    .map((seat, idx) => (wildsBySeat[idx] > 0 ? msg('coach.recap.wilds', { name: seat.name, count: wildsBySeat[idx] }) : null))
+    .filter((note): note is Message => note !== null);
+
+  return {
+    review: [
+      msg('coach.recap.summary', { count: log.actions.length }),
+      ...(lines.length ? lines : [msg('coach.recap.none')]),
+      ...notes,
+    ],
+    source: 'heuristic',
+  };
+};
@@ -0,0 +1,118 @@
+import { msg } from '../i18n';
+import { runBotTurn } from './bot';
+import { getBot } from './bots';
+import { mixSeed } from './deck';
+import { applyAction, createGame } from './engine';
+import { ReplayError } from './replay';
+import type { GameLog } from './replay';
+import { RULE_PRESETS } from './rules';
+import type { RulePreset } from './rules';
+import { createSeats } from './seats';
+import type { SeatNames } from './seats';
+import type { GameState } from './types';
+
+/** Everyone plays the same opponent, so its moves depend only on the deal and the human's moves. */
+export const DAILY_BOT = 'normal';
+export const DAILY_SEAT_COUNT = 2;
+
+/** Result of one profile's ranked attempt. */
+export interface DailyScore {
+  won: boolean;
+  /** Turns the human took, including the winning one. */
+  turns: number;
+  /** Draw actions by the human; a penalty draw counts once. */
+  draws: number;
+}
+
+export interface LeaderboardEntry extends DailyScore {
+  profileId: number;
+  name: string;
+  finishedAt: string;
+}
+
+/** The challenge being played; unranked runs are practice on a past (or already played) day. */
+export interface DailyRun {
+  date: string;
+  ranked: boolean;
+}
+
+/** A profile's ranked attempt at one day; `score` stays null until the game is submitted. */
+export interface DailyAttempt {
+  startedAt: string;
+  score: LeaderboardEntry | null;
+}
+
+/** What `GET /api/daily/:date` returns. */
+export interface DailyBoard {
+  date: string;
+  /** Sorted with `compareScores`. */
+  leaderboard: LeaderboardEntry[];
+  /** The asking profile's attempt, if a `profileId` was given. */
+  attempt: DailyAttempt | null;
+}
+
+/** The challenge day, as `YYYY-MM-DD` in UTC so everyone changes day together. */
+export const dailyKey = (date = new Date()): string => date.toISOString().slice(0, 10);
+
+export const isDailyKey = (key: string): boolean =>
+  /^\d{4}-\d{2}-\d{2}$/.test(key) && !Number.isNaN(Date.parse(`${key}T00:00:00Z`));
+
+export const dailySeed = (key: string): number => {
+  const [year, month, day] = key.split('-').map(Number);
+  return mixSeed(0xda1, year, month, day);
+};
+
+/** The rules rotate through the presets from day to day. */
+export const dailyPreset = (key: string): RulePreset =>
+  RULE_PRESETS[dailySeed(key) % RULE_PRESETS.length];
+
+export const dailySeats = (names?: SeatNames) => createSeats(DAILY_SEAT_COUNT, [DAILY_BOT], names);
+
+export const createDailyGame = (key: string): GameState =>
+  createGame(dailySeed(key), dailyPreset(key).rules, DAILY_SEAT_COUNT);
+
+/**
+ * Replays a finished challenge game and scores it. Throws a `ReplayError`
+ * unless the log is that day's deal, every AI turn is the move the daily bot
+ * makes in that position, and the game ended.
+ */
+export const scoreDailyLog = (log: GameLog, key: string): DailyScore => {
+  const expected = createDailyGame(key);
+  if (log.seed !== expected.seed || log.seatCount !== DAILY_SEAT_COUNT || JSON.stringify(log.rules) !== JSON.stringify(expected.rules)) {
+    throw new ReplayError(msg('replay.daily.wrong', { date: key }));
+  }
+
+  const actions = log.actions.map(timed => timed.action);
+  const humanTurns = new Set<number>();
+  let state = expected;
+  let draws = 0;
+  let i = 0;
+
+  while (i < actions.length) {
+    if (state.phase === 'finished') throw new ReplayError(msg('replay.daily.afterEnd'));
+    if (state.current === 0) {
+      const action = actions[i];
+      const result = applyAction(state, action);
+      if (action.seat !== 0 || result.ok === false) throw new ReplayError(msg('replay.daily.illegal', { n: i + 1 }));
+      humanTurns.add(state.turnCount);
+      if (action.type === 'draw') draws++;
+      state = result.state;
+      i++;
+    } else {
+      const turn = runBotTurn(state, state.current, getBot(DAILY_BOT));
+      const recorded = actions.slice(i, i + turn.actions.length);
+      if (JSON.stringify(recorded) !== JSON.stringify(turn.actions)) {
+        throw new ReplayError(msg('replay.daily.aiMismatch', { n: i + 1 }));
+      }
+      state = turn.state;
+      i += turn.actions.length;
+    }
+  }
+
+  if (state.phase !== 'finished') throw new ReplayError(msg('replay.daily.unfinished'));
+  return { won: state.winner === 0, turns: humanTurns.size, draws };
+};
+
+/** Winners first, then fewest turns, fewest draws and earliest finish. */
+export const compareScores = (a: LeaderboardEntry, b: LeaderboardEntry): number =>
+  Number(b.won) - Number(a.won) || a.turns - b.turns || a.draws - b.draws || a.finishedAt.localeCompare(b.finishedAt);
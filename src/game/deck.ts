@@ -0,0 +1,70 @@
+import type { CardData, Rank, RuleSet, Suit } from './types';
+
+export const SUITS: Suit[] = ['hearts', 'diamonds', 'clubs', 'spades'];
+/** The ranks of a standard deck; jokers are added separately. */
+export const RANKS: Rank[] = ['A', '2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K'];
+/** One red and one black joker per deck. */
+export const JOKER_SUITS: Suit[] = ['hearts', 'spades'];
+export const MAX_DECKS = 3;
+
+export const isRank = (value: unknown): value is Rank => RANKS.includes(value as Rank) || value === 'Joker';
+
+export const isJoker = (card: CardData): boolean => card.rank === 'Joker';
+
+/**
+ * `decks` standard decks, each followed by its jokers if `withJokers`. The
+ * first deck's ids are `${rank}-${suit}`; later copies add `-2`, `-3`, so a
+ * single deck keeps the ids (and deals) it always had.
+ */
+export const createDeck = (decks = 1, withJokers = false): CardData[] => {
+  const deck: CardData[] = [];
+  for (let copy = 1; copy <= decks; copy++) {
+    const suffix = copy === 1 ? '' : `-${copy}`;
+    SUITS.forEach((suit) => {
+      RANKS.forEach((rank) => {
+        deck.push({ id: `${rank}-${suit}${suffix}`, suit, rank });
+      });
+    });
+    if (withJokers) {
+      JOKER_SUITS.forEach((suit) => deck.push({ id: `Joker-${suit}${suffix}`, suit, rank: 'Joker' }));
+    }
+  }
+  return deck;
+};
+
+/** Every card in play under `rules`. */
+export const createShoe = (rules: RuleSet): CardData[] =>
+  // Logs written before these rules existed have neither key.
+  createDeck(rules.decks ?? 1, (rules.jokerEffect ?? 'none') !== 'none');
+
+// --- Seeded Randomness ---
+
+/** mulberry32: small, fast and good enough for shuffling cards. */
+export const createRng = (seed: number): (() => number) => {
+  let t = seed >>> 0;
+  return () => {
+    t = (t + 0x6d2b79f5) >>> 0;
+    let r = Math.imul(t ^ (t >>> 15), 1 | t);
+    r = (r + Math.imul(r ^ (r >>> 7), 61 | r)) ^ r;
+    return ((r ^ (r >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const randomSeed = (): number => Math.floor(Math.random() * 4294967296) >>> 0;
+
+/** Mixes any number of integers into one 32-bit seed, for deriving sub-seeds. */
+export const mixSeed = (...parts: number[]): number =>
+  parts.reduce((h, part) => Math.imul(h ^ (part >>> 0), 0x01000193) >>> 0, 0x811c9dc5);
+
+/** Fisher-Yates shuffle; the same deck and seed always give the same order. */
+export const shuffle = (deck: CardData[], seed: number): CardData[] =>
+  shuffleWith(deck, createRng(seed));
+
+export const shuffleWith = (deck: CardData[], random: () => number): CardData[] => {
+  const newDeck = [...deck];
+  for (let i = newDeck.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [newDeck[i], newDeck[j]] = [newDeck[j], newDeck[i]];
+  }
+  return newDeck;
+};
@@ -0,0 +1,112 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { createShoe } from './deck';
+import { applyAction, createGame } from './engine';
+import { CLASSIC_RULES, RULE_PRESETS } from './rules';
+import type { Action, CardData, EngineErrorCode, GameState, Rank, Suit } from './types';
+
+const card = (rank: Rank, suit: Suit): CardData => ({ id: `${rank}-${suit}`, suit, rank });
+
+/** A two-seat classic table with the given hands and discard pile. */
+const table = (hands: CardData[][], top: CardData, overrides: Partial<GameState> = {}): GameState => ({
+  ...createGame(1),
+  hands,
+  discardPile: [top],
+  deck: [card('K', 'clubs'), card('Q', 'clubs')],
+  shortSuits: hands.map(() => []),
+  ...overrides,
+});
+
+const errorCode = (state: GameState, action: Action): EngineErrorCode | null => {
+  const result = applyAction(state, action);
+  return result.ok === false ? result.error.code : null;
+};
+
+describe('createGame', () => {
+  test('deals the same game for the same seed', () => {
+    for (const preset of RULE_PRESETS) {
+      assert.deepEqual(createGame(42, preset.rules, 4), createGame(42, preset.rules, 4));
+    }
+  });
+
+  test('deals a different game for another seed', () => {
+    assert.notDeepEqual(createGame(1).hands, createGame(2).hands);
+  });
+
+  test('uses every card of the shoe exactly once', () => {
+    const rules = { ...CLASSIC_RULES, decks: 2, jokerEffect: 'wild' as const };
+    const game = createGame(7, rules, 6);
+    const ids = [...game.deck, ...game.discardPile, ...game.hands.flat()].map(c => c.id).sort();
+    assert.deepEqual(ids, createShoe(rules).map(c => c.id).sort());
+    assert.deepEqual(game.hands.map(h => h.length), [5, 5, 5, 5, 5, 5]);
+  });
+
+  test('never starts the pile with an 8 unless the rules allow it', () => {
+    for (let seed = 0; seed < 200; seed++) {
+      assert.notEqual(createGame(seed).discardPile[0].rank, '8');
+    }
+  });
+
+  test('refuses seat counts the table cannot hold', () => {
+    assert.throws(() => createGame(1, CLASSIC_RULES, 1), RangeError);
+    assert.throws(() => createGame(1, CLASSIC_RULES, 9), RangeError);
+  });
+});
+
+describe('applyAction', () => {
+  const hands = [[card('5', 'hearts'), card('9', 'spades'), card('8', 'clubs')], [card('3', 'diamonds')]];
+
+  test('plays a matching card and passes the turn', () => {
+    const result = applyAction(table(hands, card('2', 'hearts')), { type: 'play', seat: 0, cardId: '5-hearts' });
+    if (result.ok === false) return assert.fail(result.error.message);
+    assert.equal(result.state.current, 1);
+    assert.deepEqual(result.state.discardPile.at(-1), card('5', 'hearts'));
+    assert.equal(result.state.hands[0].length, 2);
+  });
+
+  test('does not change the state it is given', () => {
+    const state = table(hands, card('2', 'hearts'));
+    const before = structuredClone(state);
+    applyAction(state, { type: 'play', seat: 0, cardId: '5-hearts' });
+    assert.deepEqual(state, before);
+  });
+
+  test('names a suit after a wild card', () => {
+    const played = applyAction(table(hands, card('2', 'hearts')), { type: 'play', seat: 0, cardId: '8-clubs' });
+    if (played.ok === false) return assert.fail(played.error.message);
+    assert.equal(played.state.phase, 'choosingSuit');
+    const chosen = applyAction(played.state, { type: 'chooseSuit', seat: 0, suit: 'spades' });
+    assert.equal(chosen.ok && chosen.state.activeSuit, 'spades');
+  });
+
+  test('reports why an action is refused', () => {
+    const state = table(hands, card('2', 'hearts'));
+    assert.equal(errorCode(state, { type: 'play', seat: 1, cardId: '3-diamonds' }), 'NOT_YOUR_TURN');
+    assert.equal(errorCode(state, { type: 'play', seat: 0, cardId: '3-diamonds' }), 'CARD_NOT_IN_HAND');
+    assert.equal(errorCode(state, { type: 'play', seat: 0, cardId: '9-spades' }), 'CARD_NOT_PLAYABLE');
+    assert.equal(errorCode(state, { type: 'chooseSuit', seat: 0, suit: 'hearts' }), 'NO_SUIT_CHOICE_PENDING');
+    assert.equal(errorCode(state, { type: 'pass', seat: 0 }), 'CANNOT_PASS');
+    assert.equal(errorCode({ ...state, deck: [] }, { type: 'draw', seat: 0 }), 'DECK_EMPTY');
+    assert.equal(errorCode({ ...state, phase: 'finished', winner: 1 }, { type: 'draw', seat: 0 }), 'GAME_OVER');
+    assert.equal(errorCode({ ...state, pendingDraw: 2 }, { type: 'pass', seat: 0 }), 'PENALTY_PENDING');
+
+    const choosing: GameState = { ...state, phase: 'choosingSuit' };
+    assert.equal(errorCode(choosing, { type: 'draw', seat: 0 }), 'SUIT_CHOICE_PENDING');
+    assert.equal(errorCode(choosing, { type: 'chooseSuit', seat: 0, suit: 'stars' as Suit }), 'INVALID_SUIT');
+  });
+
+  test('limits drawing to what the draw policy allows', () => {
+    const oneThenPass = table(hands, card('2', 'hearts'), { rules: { ...CLASSIC_RULES, drawPolicy: 'drawOneThenPass' }, hasDrawn: true });
+    assert.equal(errorCode(oneThenPass, { type: 'draw', seat: 0 }), 'ALREADY_DREW');
+    assert.equal(errorCode(oneThenPass, { type: 'pass', seat: 0 }), null);
+
+    const untilPlayable = table(hands, card('2', 'hearts'), { rules: { ...CLASSIC_RULES, drawPolicy: 'untilPlayable' } });
+    assert.equal(errorCode(untilPlayable, { type: 'draw', seat: 0 }), 'MUST_PLAY');
+  });
+
+  test('ends the game when the last card is played', () => {
+    const result = applyAction(table([[card('5', 'hearts')], [card('3', 'diamonds')]], card('2', 'hearts')), { type: 'play', seat: 0, cardId: '5-hearts' });
+    assert.equal(result.ok && result.state.phase, 'finished');
+    assert.equal(result.ok && result.state.winner, 0);
+  });
+});
@@ -0,0 +1,258 @@
+import { MAX_DECKS, SUITS, createShoe, isJoker, shuffle } from './deck';
+import { CLASSIC_RULES } from './rules';
+import { MAX_SEATS, MIN_SEATS } from './seats';
+import type { Action, ActionResult, CardData, EngineErrorCode, GameState, RuleSet } from './types';
+
+// --- Setup ---
+
+/** Standard deal: 7 cards each head-to-head, 5 each at larger tables. */
+export const handSizeFor = (seatCount: number): number => (seatCount === 2 ? 7 : 5);
+
+export const createGame = (seed: number, rules: RuleSet = CLASSIC_RULES, seatCount = 2): GameState => {
+  if (seatCount < MIN_SEATS || seatCount > MAX_SEATS) {
+    throw new RangeError(`A game needs ${MIN_SEATS}-${MAX_SEATS} seats, got ${seatCount}.`);
+  }
+  if (rules.decks !== undefined && (!Number.isInteger(rules.decks) || rules.decks < 1 || rules.decks > MAX_DECKS)) {
+    throw new RangeError(`A game uses 1-${MAX_DECKS} decks, got ${rules.decks}.`);
+  }
+
+  const deck = shuffle(createShoe(rules), seed);
+  const handSize = handSizeFor(seatCount);
+  const hands: CardData[][] = [];
+  for (let seat = 0; seat < seatCount; seat++) {
+    hands.push(deck.splice(0, handSize));
+  }
+
+  // Unless the rules allow it, ensure first discard is not an 8 for simplicity in first turn.
+  // A joker never starts: it has no suit to follow.
+  const firstDiscardIndex = deck.findIndex(c => !isJoker(c) && (rules.allowEightFirst || c.rank !== '8'));
+  const firstDiscard = deck.splice(firstDiscardIndex, 1)[0];
+
+  return {
+    seed,
+    rules,
+    deck,
+    hands,
+    discardPile: [firstDiscard],
+    activeSuit: null,
+    current: 0,
+    direction: 1,
+    pendingDraw: 0,
+    reshuffles: 0,
+    shortSuits: hands.map(() => []),
+    phase: 'playing',
+    winner: null,
+    hasDrawn: false,
+    turnCount: 0,
+  };
+};
+
+// --- Queries ---
+
+export const topDiscard = (state: GameState): CardData | undefined =>
+  state.discardPile[state.discardPile.length - 1];
+
+/** Wild cards are playable on anything and let the player name the next suit. Jokers always are. */
+export const isWild = (card: CardData, rules: RuleSet): boolean =>
+  card.rank === '8' || isJoker(card) || (card.rank === 'J' && rules.jackEffect === 'wild');
+
+export const isPlayable = (state: GameState, card: CardData): boolean => {
+  const top = topDiscard(state);
+  if (!top) return false;
+
+  // Facing a draw penalty, the only way out besides drawing is stacking another 2.
+  if (state.pendingDraw > 0) {
+    return state.rules.stackDrawTwo && top.rank === '2' && card.rank === '2';
+  }
+  if (isWild(card, state.rules)) return true;
+
+  const targetSuit = state.activeSuit || top.suit;
+  return card.suit === targetSuit || card.rank === top.rank;
+};
+
+export const playableCards = (state: GameState, seat: number): CardData[] =>
+  state.hands[seat].filter(card => isPlayable(state, card));
+
+/** Cards that can still be drawn, counting the discards a reshuffle would bring back. */
+export const drawableCount = (state: GameState): number =>
+  state.deck.length + (state.rules.reshuffleDiscards ? Math.max(state.discardPile.length - 1, 0) : 0);
+
+export const canDraw = (state: GameState): boolean => {
+  if (state.pendingDraw > 0) return true;
+  if (drawableCount(state) === 0) return false;
+  switch (state.rules.drawPolicy) {
+    case 'unlimited': return true;
+    case 'drawOneThenPass': return !state.hasDrawn;
+    case 'untilPlayable': return playableCards(state, state.current).length === 0;
+  }
+};
+
+export const canPass = (state: GameState): boolean => {
+  if (state.pendingDraw > 0) return false;
+  if (state.rules.drawPolicy === 'untilPlayable') {
+    return drawableCount(state) === 0 && playableCards(state, state.current).length === 0;
+  }
+  return state.hasDrawn || drawableCount(state) === 0;
+};
+
+// --- Reducer ---
+
+const fail = (code: EngineErrorCode, message: string): ActionResult => ({
+  ok: false,
+  error: { code, message },
+});
+
+const seatAfter = (state: GameState, steps: number): number => {
+  const n = state.hands.length;
+  return (((state.current + state.direction * steps) % n) + n) % n;
+};
+
+const endTurn = (state: GameState, steps = 1): GameState => ({
+  ...state,
+  current: seatAfter(state, steps),
+  hasDrawn: false,
+  turnCount: state.turnCount + 1,
+});
+
+const withHand = (state: GameState, seat: number, hand: CardData[]): CardData[][] =>
+  state.hands.map((h, i) => (i === seat ? hand : h));
+
+const reshuffleSeed = (seed: number, reshuffles: number): number =>
+  (seed + Math.imul(reshuffles + 1, 0x9e3779b9)) >>> 0;
+
+/** Moves up to `count` cards to `seat`, reshuffling the discards in if the rules allow. */
+const drawCards = (state: GameState, seat: number, count: number): GameState => {
+  let { deck, discardPile, reshuffles } = state;
+  const drawn: CardData[] = [];
+
+  while (drawn.length < count) {
+    if (deck.length === 0) {
+      if (!state.rules.reshuffleDiscards || discardPile.length <= 1) break;
+      const top = discardPile[discardPile.length - 1];
+      deck = shuffle(discardPile.slice(0, -1), reshuffleSeed(state.seed, reshuffles));
+      discardPile = [top];
+      reshuffles++;
+    }
+    drawn.push(deck[0]);
+    deck = deck.slice(1);
+  }
+
+  return {
+    ...state,
+    deck,
+    discardPile,
+    reshuffles,
+    hands: withHand(state, seat, [...state.hands[seat], ...drawn]),
+  };
+};
+
+/** Resolves the effect of a non-wild card once it is on the discard pile. */
+const resolveCardEffect = (state: GameState, card: CardData): GameState => {
+  const { rules } = state;
+  if (card.rank === '2' && rules.drawTwo) {
+    return endTurn({ ...state, pendingDraw: state.pendingDraw + 2 });
+  }
+  if (card.rank === 'J' && rules.jackEffect === 'drawFive') {
+    return endTurn({ ...state, pendingDraw: state.pendingDraw + 5 });
+  }
+  if (card.rank === 'Q' && rules.queenSkips) {
+    return endTurn(state, 2);
+  }
+  if (card.rank === 'A' && rules.aceReverses) {
+    const reversed: GameState = { ...state, direction: state.direction === 1 ? -1 : 1 };
+    return endTurn(reversed, state.hands.length === 2 ? 2 : 1);
+  }
+  return endTurn(state);
+};
+
+/**
+ * Applies one action and returns the next state, or an error explaining why
+ * the action is not legal right now. Never mutates `state`.
+ */
+export const applyAction = (state: GameState, action: Action): ActionResult => {
+  if (state.phase === 'finished') {
+    return fail('GAME_OVER', 'The game is already over.');
+  }
+  if (action.seat !== state.current) {
+    return fail('NOT_YOUR_TURN', `It is seat ${state.current}'s turn, not seat ${action.seat}'s.`);
+  }
+  if (state.phase === 'choosingSuit' && action.type !== 'chooseSuit') {
+    return fail('SUIT_CHOICE_PENDING', 'A suit must be chosen for the wild card first.');
+  }
+
+  switch (action.type) {
+    case 'play': {
+      const hand = state.hands[action.seat];
+      const card = hand.find(c => c.id === action.cardId);
+      if (!card) {
+        return fail('CARD_NOT_IN_HAND', `Card ${action.cardId} is not in seat ${action.seat}'s hand.`);
+      }
+      if (!isPlayable(state, card)) {
+        return state.pendingDraw > 0
+          ? fail('PENALTY_PENDING', `Draw ${state.pendingDraw} cards or stack a 2.`)
+          : fail('CARD_NOT_PLAYABLE', `${card.rank} of ${card.suit} does not match the discard pile.`);
+      }
+
+      const rest = hand.filter(c => c.id !== card.id);
+      const next: GameState = {
+        ...state,
+        hands: withHand(state, action.seat, rest),
+        shortSuits: state.shortSuits.map((suits, i) => (i === action.seat && !isJoker(card) ? suits.filter(s => s !== card.suit) : suits)),
+        discardPile: [...state.discardPile, card],
+        activeSuit: null,
+      };
+
+      if (rest.length === 0) {
+        return { ok: true, state: { ...next, phase: 'finished', winner: action.seat } };
+      }
+      if (isWild(card, state.rules)) {
+        return { ok: true, state: { ...next, phase: 'choosingSuit' } };
+      }
+      return { ok: true, state: resolveCardEffect(next, card) };
+    }
+
+    case 'chooseSuit': {
+      if (state.phase !== 'choosingSuit') {
+        return fail('NO_SUIT_CHOICE_PENDING', 'There is no wild card waiting for a suit.');
+      }
+      if (!SUITS.includes(action.suit)) {
+        return fail('INVALID_SUIT', `"${action.suit}" is not a suit.`);
+      }
+      const wild = topDiscard(state)!;
+      const pendingDraw = isJoker(wild) && state.rules.jokerEffect === 'wildDrawFour' ? state.pendingDraw + 4 : state.pendingDraw;
+      return { ok: true, state: endTurn({ ...state, activeSuit: action.suit, phase: 'playing', pendingDraw }) };
+    }
+
+    case 'draw': {
+      if (state.pendingDraw > 0) {
+        const penalised = drawCards(state, action.seat, state.pendingDraw);
+        return { ok: true, state: endTurn({ ...penalised, pendingDraw: 0 }) };
+      }
+      if (drawableCount(state) === 0) {
+        return fail('DECK_EMPTY', 'The deck is empty.');
+      }
+      if (!canDraw(state)) {
+        return state.rules.drawPolicy === 'drawOneThenPass'
+          ? fail('ALREADY_DREW', 'You may only draw one card per turn.')
+          : fail('MUST_PLAY', 'You have a playable card, so you cannot draw.');
+      }
+      const drawn = drawCards(state, action.seat, 1);
+      const targetSuit = state.activeSuit || topDiscard(state)!.suit;
+      const shortSuits = state.shortSuits.map((suits, i) =>
+        i === action.seat && !suits.includes(targetSuit) ? [...suits, targetSuit] : suits);
+      return { ok: true, state: { ...drawn, shortSuits, hasDrawn: true } };
+    }
+
+    case 'pass': {
+      if (state.pendingDraw > 0) {
+        return fail('PENALTY_PENDING', `Draw ${state.pendingDraw} cards or stack a 2.`);
+      }
+      if (!canPass(state)) {
+        return fail('CANNOT_PASS', state.rules.drawPolicy === 'untilPlayable'
+          ? 'You must play or keep drawing.'
+          : 'You must draw before passing while the deck has cards.');
+      }
+      return { ok: true, state: endTurn(state) };
+    }
+  }
+};
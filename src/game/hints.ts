@@ -0,0 +1,110 @@
+import { msg, suitMsg } from '../i18n';
+import type { Message } from '../i18n';
+import type { Move, SeatView } from './bot';
+import { isJoker } from './deck';
+import { isWild } from './engine';
+import type { CardData } from './types';
+
+export interface Hint {
+  card: CardData;
+  /** Higher is better; only meaningful relative to the other hints. */
+  score: number;
+  /** Short phrases, most important first, e.g. "keeps your 8". */
+  reasons: Message[];
+}
+
+/** An opponent with this many cards or fewer is about to go out. */
+const DANGER_HAND_SIZE = 2;
+
+/**
+ * Ranks the playable cards in `view`, best first, with the reasons behind
+ * each score. Considers wild cards, suit length, the next seat's known short
+ * suits, action cards (including draw-four jokers) and opponents close to
+ * going out.
+ */
+export const rankPlayable = (view: SeatView): Hint[] => {
+  const { rules, hand, handSizes } = view;
+  const seatCount = handSizes.length;
+  const next = (view.seat + view.direction + seatCount) % seatCount;
+  const nextShort = view.shortSuits[next] ?? [];
+  const currentSuit = view.activeSuit ?? view.topDiscard.suit;
+  const danger = handSizes.some((size, seat) => seat !== view.seat && size <= DANGER_HAND_SIZE);
+  const suitCount = (suit: string, without: CardData) => hand.filter(c => c.suit === suit && !isJoker(c) && c.id !== without.id).length;
+  const hasOtherPlay = (card: CardData) => view.playable.some(c => c.id !== card.id && !isWild(c, rules));
+
+  const hints = view.playable.map((card): Hint => {
+    const reasons: Message[] = [];
+    let score = 0;
+
+    if (isWild(card, rules)) {
+      if (hasOtherPlay(card)) {
+        score -= 5;
+        reasons.push(msg('hint.spendsWild', { rank: msg(`rank.${card.rank}`) }));
+      } else {
+        score += 2;
+        reasons.push(msg('hint.nothingElse'));
+      }
+      if (danger) {
+        score += 3;
+        reasons.push(msg('hint.opponentNearlyOut'));
+      }
+      if (isJoker(card) && rules.jokerEffect === 'wildDrawFour') {
+        score += danger ? 4 : 1;
+        reasons.push(msg('hint.drawFour'));
+      }
+      return { card, score, reasons };
+    }
+
+    if (view.playable.some(c => isWild(c, rules))) {
+      score += 2;
+      reasons.push(msg('hint.keepsWild', { rank: msg(`rank.${view.playable.find(c => isWild(c, rules))!.rank}`) }));
+    }
+
+    const following = suitCount(card.suit, card);
+    score += following;
+    if (following > 0) reasons.push(msg('hint.moreOfSuit', { count: following, suit: suitMsg(card.suit) }));
+
+    if (card.suit !== currentSuit && nextShort.includes(currentSuit)) {
+      score -= 3;
+      reasons.push(msg('hint.switchesAwayFromShort', { suit: suitMsg(currentSuit) }));
+    } else if (card.suit !== currentSuit && nextShort.includes(card.suit)) {
+      score += 3;
+      reasons.push(msg('hint.switchesToShort', { suit: suitMsg(card.suit) }));
+    } else if (card.suit === currentSuit && nextShort.includes(card.suit)) {
+      score += 2;
+      reasons.push(msg('hint.staysOnShort', { suit: suitMsg(card.suit) }));
+    }
+
+    const attack =
+      card.rank === '2' && rules.drawTwo ? msg('hint.drawTwo')
+      : card.rank === 'Q' && rules.queenSkips ? msg('hint.skip')
+      : card.rank === 'J' && rules.jackEffect === 'drawFive' ? msg('hint.drawFive')
+      : null;
+    if (attack) {
+      score += danger ? 4 : 1;
+      reasons.push(attack);
+    }
+
+    if (reasons.length === 0) reasons.push(msg('hint.safe'));
+    return { card, score, reasons };
+  });
+
+  return hints.sort((a, b) => b.score - a.score);
+};
+
+/**
+ * The general reasons for a bot's move, for bots that do not explain
+ * themselves: a played card gets its hint reasons, a suit choice none.
+ */
+export const explainMove = (view: SeatView, move: Move): Message[] => {
+  switch (move.type) {
+    case 'play':
+      return rankPlayable(view).find(hint => hint.card.id === move.cardId)?.reasons ?? [];
+    case 'chooseSuit':
+      return [];
+    case 'draw':
+      return [view.pendingDraw > 0 ? msg('why.drawPenalty', { count: view.pendingDraw }) : msg('why.drawNoPlay')];
+    case 'pass':
+      return [msg(view.hasDrawn ? 'why.passAfterDraw' : 'why.passDeckEmpty')];
+  }
+};
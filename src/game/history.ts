@@ -0,0 +1,133 @@
+import type { SeatConfig } from './seats';
+import { topDiscard } from './engine';
+import type { CardData, GameState, RuleSet } from './types';
+
+/** A local player; their games are the ones played from seat 0. */
+export interface Profile {
+  id: number;
+  name: string;
+  createdAt: string;
+}
+
+export interface Opponent {
+  name: string;
+  bot: string;
+}
+
+/** What is stored for one finished game. */
+export interface GameSummary {
+  seed: number;
+  rules: RuleSet;
+  /** The AI seats, in seat order from seat 1. */
+  opponents: Opponent[];
+  /** 0 when the profile's player won. */
+  winner: number;
+  turns: number;
+  /** Cards still held at the end, per seat. */
+  cardsLeft: number[];
+  /** The card the winner went out with. */
+  finishingCard: CardData;
+  /** Hints or undo were used; such games are left out of the statistics. */
+  assisted: boolean;
+}
+
+export interface HistoryEntry extends GameSummary {
+  id: number;
+  profileId: number;
+  playedAt: string;
+}
+
+export interface DifficultyStats {
+  bot: string;
+  games: number;
+  wins: number;
+}
+
+/** Everything except `assistedGames` counts unassisted games only. */
+export interface PlayerStats {
+  games: number;
+  assistedGames: number;
+  wins: number;
+  currentStreak: number;
+  bestStreak: number;
+  averageTurns: number;
+  /** Games that ended on an 8. */
+  eightFinishes: number;
+  /** A game counts once for every different bot at the table. */
+  byDifficulty: DifficultyStats[];
+}
+
+/** Summarises a finished game played by the human in seat 0. */
+export const summarizeGame = (state: GameState, seats: SeatConfig[], assisted = false): GameSummary => ({
+  seed: state.seed,
+  rules: state.rules,
+  opponents: seats.slice(1).map(seat => ({ name: seat.name, bot: seat.bot })),
+  winner: state.winner!,
+  turns: state.turnCount,
+  cardsLeft: state.hands.map(hand => hand.length),
+  finishingCard: topDiscard(state)!,
+  assisted,
+});
+
+/** Statistics over `history`, oldest first. */
+export const computeStats = (history: HistoryEntry[]): PlayerStats => {
+  const entries = history.filter(entry => !entry.assisted);
+  let wins = 0;
+  let streak = 0;
+  let bestStreak = 0;
+  let turns = 0;
+  let eightFinishes = 0;
+  const byBot = new Map<string, DifficultyStats>();
+
+  for (const entry of entries) {
+    const won = entry.winner === 0;
+    if (won) wins++;
+    streak = won ? streak + 1 : 0;
+    bestStreak = Math.max(bestStreak, streak);
+    turns += entry.turns;
+    if (entry.finishingCard.rank === '8') eightFinishes++;
+
+    for (const bot of new Set(entry.opponents.map(o => o.bot))) {
+      const stats = byBot.get(bot) ?? { bot, games: 0, wins: 0 };
+      stats.games++;
+      if (won) stats.wins++;
+      byBot.set(bot, stats);
+    }
+  }
+
+  return {
+    games: entries.length,
+    assistedGames: history.length - entries.length,
+    wins,
+    currentStreak: streak,
+    bestStreak,
+    averageTurns: entries.length ? turns / entries.length : 0,
+    eightFinishes,
+    byDifficulty: [...byBot.values()],
+  };
+};
+
+const CSV_COLUMNS = ['id', 'playedAt', 'seed', 'opponents', 'winner', 'won', 'turns', 'cardsLeft', 'finishingCard', 'assisted', 'rules'];
+
+const csvField = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** One row per game; list-valued columns are joined with `;`. */
+export const historyCsv = (entries: HistoryEntry[]): string => {
+  const rows = entries.map(entry => [
+    entry.id,
+    entry.playedAt,
+    entry.seed,
+    entry.opponents.map(o => `${o.name} (${o.bot})`).join(';'),
+    entry.winner === 0 ? 'You' : entry.opponents[entry.winner - 1]?.name ?? entry.winner,
+    entry.winner === 0 ? 1 : 0,
+    entry.turns,
+    entry.cardsLeft.join(';'),
+    entry.finishingCard.id,
+    entry.assisted ? 1 : 0,
+    JSON.stringify(entry.rules),
+  ].map(csvField).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+};
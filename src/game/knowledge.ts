@@ -0,0 +1,48 @@
+import type { SeatView } from './bot';
+import { createShoe, isJoker, shuffleWith } from './deck';
+import type { CardData, GameState } from './types';
+
+/** Cards the seat has not seen: not in its own hand and not on the discard pile. */
+export const unseenCards = (view: SeatView): CardData[] => {
+  const seen = new Set([...view.hand, ...view.discardPile].map(c => c.id));
+  return createShoe(view.rules).filter(c => !seen.has(c.id));
+};
+
+/**
+ * One plausible full state consistent with what the seat has seen: the
+ * unseen cards are dealt at random to the other hands (avoiding suits a
+ * seat is known to be short in where possible) and the rest become the deck.
+ */
+export const determinize = (view: SeatView, random: () => number): GameState => {
+  let pool = shuffleWith(unseenCards(view), random);
+
+  const hands = view.handSizes.map((size, other) => {
+    if (other === view.seat) return view.hand;
+    const short = view.shortSuits[other];
+    const isUnlikely = (c: CardData) => !isJoker(c) && short.includes(c.suit);
+    const likely = pool.filter(c => !isUnlikely(c));
+    const unlikely = pool.filter(isUnlikely);
+    const dealt = [...likely, ...unlikely].slice(0, size);
+    const dealtIds = new Set(dealt.map(c => c.id));
+    pool = pool.filter(c => !dealtIds.has(c.id));
+    return dealt;
+  });
+
+  return {
+    seed: Math.floor(random() * 4294967296) >>> 0,
+    rules: view.rules,
+    deck: pool.slice(0, view.deckSize),
+    hands,
+    discardPile: view.discardPile,
+    activeSuit: view.activeSuit,
+    current: view.seat,
+    direction: view.direction,
+    pendingDraw: view.pendingDraw,
+    reshuffles: 0,
+    shortSuits: view.shortSuits,
+    phase: view.phase,
+    winner: null,
+    hasDrawn: view.hasDrawn,
+    turnCount: view.turnCount,
+  };
+};
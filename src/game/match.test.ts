@@ -0,0 +1,42 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { createGame } from './engine';
+import { DEFAULT_SCORING, cardPoints, createMatch, matchTotals, matchWinner, recordHand } from './match';
+import type { CardData, GameState, Rank, Suit } from './types';
+
+const card = (rank: Rank, suit: Suit): CardData => ({ id: `${rank}-${suit}`, suit, rank });
+
+const finished = (seed: number, winner: number, hands: CardData[][]): GameState =>
+  ({ ...createGame(seed, undefined, hands.length), hands, phase: 'finished', winner });
+
+test('cardPoints scores 8s and jokers high, faces at ten and number cards at face value', () => {
+  assert.equal(cardPoints(card('8', 'hearts'), DEFAULT_SCORING), 50);
+  assert.equal(cardPoints(card('Joker', 'spades'), DEFAULT_SCORING), 50);
+  assert.equal(cardPoints(card('K', 'clubs'), DEFAULT_SCORING), 10);
+  assert.equal(cardPoints(card('A', 'clubs'), DEFAULT_SCORING), 1);
+  assert.equal(cardPoints(card('7', 'diamonds'), DEFAULT_SCORING), 7);
+  assert.equal(cardPoints(card('8', 'hearts'), { eight: 20, face: 5, ace: 15 }), 20);
+});
+
+test('recordHand gives the winner every point left in the other hands', () => {
+  const game = finished(1, 1, [[card('8', 'hearts'), card('Q', 'spades')], [], [card('3', 'clubs')]]);
+  const match = recordHand(createMatch(100), game);
+  assert.deepEqual(match.hands[0].penalties, [60, 0, 3]);
+  assert.deepEqual(match.hands[0].points, [0, 63, 0]);
+});
+
+test('recordHand ignores unfinished games and deals it has already counted', () => {
+  const game = finished(1, 0, [[], [card('5', 'clubs')]]);
+  const once = recordHand(createMatch(100), game);
+  assert.equal(recordHand(once, game), once);
+  assert.equal(recordHand(once, { ...game, seed: 2, phase: 'playing' }), once);
+});
+
+test('matchWinner waits for the target, then names the highest total', () => {
+  let match = createMatch(100);
+  match = recordHand(match, finished(1, 0, [[], [card('8', 'clubs'), card('K', 'clubs')]]));
+  assert.deepEqual(matchTotals(match, 2), [60, 0]);
+  assert.equal(matchWinner(match, 2), null);
+  match = recordHand(match, finished(2, 0, [[], [card('8', 'hearts')]]));
+  assert.equal(matchWinner(match, 2), 0);
+});
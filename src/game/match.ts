@@ -0,0 +1,71 @@
+import type { CardData, GameState } from './types';
+
+/** Penalty points for cards left in a hand. Jokers score as 8s; other number cards score face value. */
+export interface ScoringTable {
+  eight: number;
+  face: number;
+  ace: number;
+}
+
+export const DEFAULT_SCORING: ScoringTable = { eight: 50, face: 10, ace: 1 };
+
+export const MATCH_TARGETS = [100, 250, 500];
+
+export interface HandResult {
+  seed: number;
+  winner: number | null;
+  /** Penalty points left in each seat's hand when the hand ended. */
+  penalties: number[];
+  /** Points each seat scored for this hand; only the winner scores. */
+  points: number[];
+}
+
+export interface MatchState {
+  target: number;
+  scoring: ScoringTable;
+  hands: HandResult[];
+}
+
+export const createMatch = (target: number, scoring: ScoringTable = DEFAULT_SCORING): MatchState => ({
+  target,
+  scoring,
+  hands: [],
+});
+
+export const cardPoints = (card: CardData, scoring: ScoringTable): number => {
+  switch (card.rank) {
+    case '8':
+    case 'Joker': return scoring.eight;
+    case 'J':
+    case 'Q':
+    case 'K': return scoring.face;
+    case 'A': return scoring.ace;
+    default: return Number(card.rank);
+  }
+};
+
+/**
+ * Adds a finished hand to the match: the winner scores every penalty point
+ * left in the other hands. Recording the same deal twice is a no-op.
+ */
+export const recordHand = (match: MatchState, game: GameState): MatchState => {
+  if (game.phase !== 'finished') return match;
+  if (match.hands.some(h => h.seed === game.seed)) return match;
+
+  const penalties = game.hands.map(hand => hand.reduce((sum, c) => sum + cardPoints(c, match.scoring), 0));
+  const total = penalties.reduce((sum, p) => sum + p, 0);
+  const points = game.hands.map((_, seat) => (seat === game.winner ? total : 0));
+
+  return { ...match, hands: [...match.hands, { seed: game.seed, winner: game.winner, penalties, points }] };
+};
+
+export const matchTotals = (match: MatchState, seatCount: number): number[] =>
+  Array.from({ length: seatCount }, (_, seat) =>
+    match.hands.reduce((sum, h) => sum + (h.points[seat] ?? 0), 0));
+
+/** The seat with the highest total once anyone reaches the target, else null. */
+export const matchWinner = (match: MatchState, seatCount: number): number | null => {
+  const totals = matchTotals(match, seatCount);
+  const best = Math.max(...totals);
+  return best >= match.target ? totals.indexOf(best) : null;
+};
@@ -0,0 +1,81 @@
+import type { Message, Params } from '../i18n';
+import type { Move, SeatView } from './bot';
+import type { SeatKind } from './seats';
+import type { EngineErrorCode, RuleSet } from './types';
+
+/** Messages exchanged over the `/ws` socket between the browser and the game server. */
+
+export interface PublicSeat {
+  /** A message for names the server chose, e.g. "AI 2", so each client shows them in its own language. */
+  name: string | Message;
+  kind: SeatKind;
+  /** False while a human seat's player is away; an AI may be covering for them. */
+  connected: boolean;
+}
+
+export type ClientMessage =
+  | { type: 'create'; name: string; seatCount: number; rules: RuleSet }
+  | { type: 'join'; code: string; name: string }
+  | { type: 'rejoin'; code: string; token: string }
+  | { type: 'start' }
+  | { type: 'move'; move: Move }
+  | { type: 'leave' };
+
+export type ServerErrorCode =
+  | 'BAD_MESSAGE'
+  | 'ROOM_NOT_FOUND'
+  | 'ROOM_FULL'
+  | 'ALREADY_STARTED'
+  | 'NOT_IN_ROOM'
+  | 'NOT_HOST'
+  | 'BAD_TOKEN'
+  | 'ILLEGAL_MOVE';
+
+export type ServerMessage =
+  /** Sent once on create/join/rejoin; keep the token to reclaim the seat after a disconnect. */
+  | { type: 'joined'; code: string; seat: number; token: string }
+  | {
+      type: 'lobby';
+      code: string;
+      seatCount: number;
+      /** Null for seats nobody has taken yet. */
+      seats: (PublicSeat | null)[];
+      /** Milliseconds since the epoch when empty seats will be filled with AI. */
+      fillAt: number;
+    }
+  | {
+      type: 'state';
+      code: string;
+      seats: PublicSeat[];
+      current: number;
+      winner: number | null;
+      /** Only the receiving seat's hand; opponents appear as `handSizes`. */
+      view: SeatView;
+    }
+  /** `message` is English, for logs; clients show the `error.<code>` catalog entry filled with `params`. */
+  | { type: 'error'; code: ServerErrorCode | EngineErrorCode; message: string; params?: Params };
+
+// --- HTTP API ---
+
+export type ApiErrorCode =
+  | 'BAD_DATE'
+  | 'NO_PROFILE'
+  | 'NAME_REQUIRED'
+  | 'NOT_A_FINISHED_GAME'
+  | 'NOT_TODAY'
+  | 'ALREADY_PLAYED'
+  | 'NOT_STARTED'
+  | 'ALREADY_SUBMITTED'
+  | 'NOT_A_GAME_LOG'
+  | 'NOT_A_SEAT_VIEW'
+  | 'SEATS_MISMATCH'
+  | 'COACH_UNAVAILABLE';
+
+/** The body of a failed `/api` request. `error` is English, for logs; clients show `api.<code>` filled with `params`. */
+export interface ApiErrorBody {
+  error: string;
+  code: ApiErrorCode;
+  params?: Params;
+}
+
+export const apiError = (code: ApiErrorCode, error: string, params?: Params): ApiErrorBody => ({ error, code, params });
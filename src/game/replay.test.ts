@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { runBotTurn } from './bot';
+import { getBot } from './bots';
+import { createGame } from './engine';
+import { appendActions, exportReplay, importReplay, replayStates, ReplayError, startLog } from './replay';
+import type { GameLog } from './replay';
+import { RULE_PRESETS } from './rules';
+import { createBotSeats } from './seats';
+import type { GameState } from './types';
+
+/** Bots play `seed` to the end, recording every action. */
+const playRecorded = (seed: number, rules = RULE_PRESETS[0].rules): { state: GameState; log: GameLog } => {
+  let state = createGame(seed, rules, 3);
+  let log = startLog(state, 0);
+  while (state.phase !== 'finished' && state.turnCount < 1000) {
+    const turn = runBotTurn(state, state.current, getBot('normal'));
+    log = appendActions(log, turn.actions, 0);
+    state = turn.state;
+  }
+  return { state, log };
+};
+
+test('replaying a log rebuilds every state up to the final one', () => {
+  for (const preset of RULE_PRESETS) {
+    const { state, log } = playRecorded(11, preset.rules);
+    const states = replayStates(log);
+    assert.equal(states.length, log.actions.length + 1);
+    assert.deepEqual(states.at(-1), state);
+  }
+});
+
+test('an exported replay imports to the same log and states', () => {
+  const { state, log } = playRecorded(5);
+  const seats = createBotSeats(3);
+  const imported = importReplay(exportReplay(log, seats));
+  assert.deepEqual(imported.log, log);
+  assert.deepEqual(imported.seats, seats);
+  assert.deepEqual(imported.states.at(-1), state);
+});
+
+test('a log with an illegal action is refused', () => {
+  const { log } = playRecorded(5);
+  const [first, ...rest] = log.actions;
+  const tampered = { ...log, actions: [{ ...first, action: { ...first.action, seat: first.action.seat + 1 } }, ...rest] };
+  assert.throws(() => replayStates(tampered), ReplayError);
+});
+
+test('unreadable replay files are refused with a ReplayError', () => {
+  const { log } = playRecorded(5);
+  const file = JSON.parse(exportReplay(log, createBotSeats(3)));
+  for (const json of [
+    'not json',
+    JSON.stringify({ ...file, version: 99 }),
+    JSON.stringify({ ...file, log: { ...file.log, seed: 'x' } }),
+    JSON.stringify({ ...file, seats: file.seats.slice(1) }),
+  ]) {
+    assert.throws(() => importReplay(json), ReplayError);
+  }
+});
@@ -0,0 +1,196 @@
+import { cardMsg, engineErrorMsg, english, formatText, msg, suitMsg } from '../i18n';
+import type { Message, Translate } from '../i18n';
+import { applyAction, createGame } from './engine';
+import type { SeatConfig } from './seats';
+import type { Action, CardData, GameState, RuleSet, Suit } from './types';
+
+// --- Recording ---
+
+export interface TimedAction {
+  action: Action;
+  /** Milliseconds since the epoch. */
+  at: number;
+}
+
+/** Everything needed to rebuild a game exactly: the deal comes from the seed, the rest from the actions. */
+export interface GameLog {
+  seed: number;
+  rules: RuleSet;
+  seatCount: number;
+  startedAt: number;
+  actions: TimedAction[];
+}
+
+export const startLog = (state: GameState, startedAt = Date.now()): GameLog => ({
+  seed: state.seed,
+  rules: state.rules,
+  seatCount: state.hands.length,
+  startedAt,
+  actions: [],
+});
+
+export const appendActions = (log: GameLog, actions: Action[], at = Date.now()): GameLog => ({
+  ...log,
+  actions: [...log.actions, ...actions.map(action => ({ action, at }))],
+});
+
+// --- Replaying ---
+
+/** A log that cannot be replayed; `reason` says why in the player's language, the message in English. */
+export class ReplayError extends Error {
+  constructor(readonly reason: Message) {
+    super(formatText(english, reason));
+    this.name = 'ReplayError';
+  }
+}
+
+/** Every state of the game, from the deal (index 0) to after the last action. */
+export const replayStates = (log: GameLog): GameState[] => {
+  const states = [createGame(log.seed, log.rules, log.seatCount)];
+  log.actions.forEach(({ action }, i) => {
+    const result = applyAction(states[states.length - 1], action);
+    if (result.ok === false) {
+      throw new ReplayError(msg('replay.illegal', { n: i + 1, error: engineErrorMsg(states[states.length - 1], action, result.error.code) }));
+    }
+    states.push(result.state);
+  });
+  return states;
+};
+
+/**
+ * How many actions to keep to rewind `seat` to the start of its last turn:
+ * the current turn if it has already acted in it, otherwise its previous turn,
+ * taking back the other seats' replies as well. Null if there is none.
+ */
+export const undoPoint = (log: GameLog, seat: number, states: GameState[] = replayStates(log)): number | null => {
+  for (let i = states.length - 2; i >= 0; i--) {
+    const state = states[i];
+    const turnStart = i === 0 || states[i - 1].turnCount !== state.turnCount;
+    if (turnStart && state.current === seat && state.phase === 'playing') return i;
+  }
+  return null;
+};
+
+// --- Readable Log ---
+
+/** `step` is the index of the state the entry leads to: 0 for the deal, `i + 1` for action `i`. */
+export type LogEntry = { at: number; step: number } & (
+  | { type: 'deal'; seatCount: number; firstDiscard: CardData }
+  | { type: 'play'; seat: number; card: CardData }
+  | { type: 'draw'; seat: number; cards: CardData[] }
+  | { type: 'chooseSuit'; seat: number; suit: Suit }
+  | { type: 'pass'; seat: number }
+  | { type: 'reshuffle'; cards: number }
+);
+
+/** The entries one action leads to: a reshuffle it caused, then its own. */
+const actionEntries = (action: Action, before: GameState, after: GameState, at: number, step: number): LogEntry[] => {
+  const entries: LogEntry[] = [];
+  if (after.reshuffles > before.reshuffles) {
+    entries.push({ type: 'reshuffle', at, step, cards: before.discardPile.length - 1 });
+  }
+  switch (action.type) {
+    case 'play':
+      entries.push({ type: 'play', at, step, seat: action.seat, card: before.hands[action.seat].find(c => c.id === action.cardId)! });
+      break;
+    case 'draw': {
+      const held = new Set(before.hands[action.seat].map(c => c.id));
+      entries.push({ type: 'draw', at, step, seat: action.seat, cards: after.hands[action.seat].filter(c => !held.has(c.id)) });
+      break;
+    }
+    case 'chooseSuit':
+      entries.push({ type: 'chooseSuit', at, step, seat: action.seat, suit: action.suit });
+      break;
+    case 'pass':
+      entries.push({ type: 'pass', at, step, seat: action.seat });
+      break;
+  }
+  return entries;
+};
+
+/** Turns the raw actions into entries that name the cards involved. */
+export const logEntries = (log: GameLog, states: GameState[] = replayStates(log)): LogEntry[] => [
+  { type: 'deal', at: log.startedAt, step: 0, seatCount: log.seatCount, firstDiscard: states[0].discardPile[0] },
+  ...log.actions.flatMap(({ action, at }, i) => actionEntries(action, states[i], states[i + 1], at, i + 1)),
+];
+
+/** Entries for `actions` taken from `state`, e.g. one bot turn; `step` counts from 1. */
+export const turnEntries = (state: GameState, actions: Action[], at = Date.now()): LogEntry[] => {
+  let before = state;
+  return actions.flatMap((action, i) => {
+    const result = applyAction(before, action);
+    if (result.ok === false) throw new ReplayError(msg('replay.illegal', { n: i + 1, error: engineErrorMsg(before, action, result.error.code) }));
+    const entries = actionEntries(action, before, result.state, at, i + 1);
+    before = result.state;
+    return entries;
+  });
+};
+
+/**
+ * One entry as a message. Cards drawn by seats other than `revealSeat` stay
+ * hidden unless `revealSeat` is null, which shows everything.
+ */
+export const entryMsg = (entry: LogEntry, seats: SeatConfig[], revealSeat: number | null = null): Message => {
+  const name = (seat: number) => seats[seat]?.name ?? msg('seat.numbered', { n: seat });
+  switch (entry.type) {
+    case 'deal': return msg('log.deal', { count: entry.seatCount, card: cardMsg(entry.firstDiscard) });
+    case 'play': return msg('log.play', { name: name(entry.seat), card: cardMsg(entry.card) });
+    case 'draw': {
+      const hidden = revealSeat !== null && entry.seat !== revealSeat;
+      const cards = hidden
+        ? (entry.cards.length === 1 ? msg('log.aCard') : msg('log.someCards', { count: entry.cards.length }))
+        : (entry.cards.length > 0 ? entry.cards.map(cardMsg) : msg('log.nothing'));
+      return msg('log.draw', { name: name(entry.seat), cards });
+    }
+    case 'chooseSuit': return msg('log.chooseSuit', { name: name(entry.seat), suit: suitMsg(entry.suit) });
+    case 'pass': return msg('log.pass', { name: name(entry.seat) });
+    case 'reshuffle': return msg('log.reshuffle', { count: entry.cards });
+  }
+};
+
+/** One line per entry, in the language of `t`. */
+export const formatEntry = (entry: LogEntry, seats: SeatConfig[], revealSeat: number | null = null, t: Translate = english): string =>
+  formatText(t, entryMsg(entry, seats, revealSeat));
+
+// --- Files ---
+
+export const REPLAY_FILE_VERSION = 1;
+
+export interface ReplayFile {
+  version: number;
+  seats: SeatConfig[];
+  log: GameLog;
+  /** Readable copy of the log; ignored on import. */
+  entries: LogEntry[];
+}
+
+export const exportReplay = (log: GameLog, seats: SeatConfig[]): string => {
+  const file: ReplayFile = { version: REPLAY_FILE_VERSION, seats, log, entries: logEntries(log) };
+  return JSON.stringify(file, null, 2);
+};
+
+/** Parses and fully replays a file, so a file that loads is known to be playable. */
+export const importReplay = (json: string): { seats: SeatConfig[]; log: GameLog; states: GameState[] } => {
+  let file: ReplayFile;
+  try {
+    file = JSON.parse(json);
+  } catch {
+    throw new ReplayError(msg('replay.notJson'));
+  }
+  if (!file || typeof file !== 'object' || file.version !== REPLAY_FILE_VERSION) {
+    throw new ReplayError(msg('replay.version', { version: String(file?.version), expected: REPLAY_FILE_VERSION }));
+  }
+  const { log, seats } = file;
+  if (!log || !Array.isArray(log.actions) || typeof log.seed !== 'number' || !Array.isArray(seats)) {
+    throw new ReplayError(msg('replay.incomplete'));
+  }
+  if (seats.length !== log.seatCount) {
+    throw new ReplayError(msg('replay.seatCount', { count: seats.length, dealt: log.seatCount }));
+  }
+  try {
+    return { seats, log, states: replayStates(log) };
+  } catch (error) {
+    if (error instanceof ReplayError) throw error;
+    throw new ReplayError(msg('replay.unreadable'));
+  }
+};
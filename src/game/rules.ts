@@ -0,0 +1,92 @@
+import { english } from '../i18n';
+import type { Translate } from '../i18n';
+import { MAX_DECKS } from './deck';
+import type { JokerEffect, RuleSet } from './types';
+
+/** The rules the game shipped with: only 8s are special and draws are unlimited. */
+export const CLASSIC_RULES: RuleSet = {
+  drawTwo: false,
+  stackDrawTwo: false,
+  queenSkips: false,
+  aceReverses: false,
+  jackEffect: 'none',
+  drawPolicy: 'unlimited',
+  reshuffleDiscards: false,
+  allowEightFirst: false,
+  decks: 1,
+  jokerEffect: 'none',
+};
+
+const JOKER_EFFECTS: JokerEffect[] = ['none', 'wild', 'wildDrawFour'];
+
+/**
+ * Keeps only known rule keys whose values have the right type; the rest fall
+ * back to classic. The deck count and joker effect must also be in range.
+ */
+export const sanitizeRules = (rules: unknown): RuleSet => {
+  if (typeof rules !== 'object' || rules === null) return CLASSIC_RULES;
+  const source = rules as Record<string, unknown>;
+  const result: Record<string, unknown> = { ...CLASSIC_RULES };
+  for (const [key, fallback] of Object.entries(CLASSIC_RULES)) {
+    if (typeof source[key] === typeof fallback) result[key] = source[key];
+  }
+  const { decks, jokerEffect } = result;
+  if (!Number.isInteger(decks) || (decks as number) < 1 || (decks as number) > MAX_DECKS) result.decks = CLASSIC_RULES.decks;
+  if (!JOKER_EFFECTS.includes(jokerEffect as JokerEffect)) result.jokerEffect = CLASSIC_RULES.jokerEffect;
+  return result as unknown as RuleSet;
+};
+
+export interface RulePreset {
+  id: 'classic' | 'house' | 'mao';
+  label: string;
+  rules: RuleSet;
+}
+
+export const RULE_PRESETS: RulePreset[] = [
+  { id: 'classic', label: 'Classic', rules: CLASSIC_RULES },
+  {
+    id: 'house',
+    label: 'House',
+    rules: {
+      ...CLASSIC_RULES,
+      drawTwo: true,
+      stackDrawTwo: true,
+      queenSkips: true,
+      aceReverses: true,
+      drawPolicy: 'drawOneThenPass',
+      reshuffleDiscards: true,
+    },
+  },
+  {
+    id: 'mao',
+    label: 'Mao',
+    rules: {
+      ...CLASSIC_RULES,
+      drawTwo: true,
+      queenSkips: true,
+      aceReverses: true,
+      jackEffect: 'wild',
+      drawPolicy: 'untilPlayable',
+      reshuffleDiscards: true,
+      allowEightFirst: true,
+    },
+  },
+];
+
+/** Short labels for every rule that differs from the classic game. */
+export const describeRules = (rules: RuleSet, t: Translate = english): string[] => {
+  const labels: string[] = [];
+  if (rules.drawTwo) labels.push(t(rules.stackDrawTwo ? 'ruleLabel.drawTwoStacking' : 'ruleLabel.drawTwo'));
+  if (rules.queenSkips) labels.push(t('ruleLabel.queenSkips'));
+  if (rules.aceReverses) labels.push(t('ruleLabel.aceReverses'));
+  if (rules.jackEffect === 'drawFive') labels.push(t('ruleLabel.jackDrawFive'));
+  if (rules.jackEffect === 'wild') labels.push(t('ruleLabel.jackWild'));
+  if (rules.drawPolicy === 'drawOneThenPass') labels.push(t('ruleLabel.drawOneThenPass'));
+  if (rules.drawPolicy === 'untilPlayable') labels.push(t('ruleLabel.untilPlayable'));
+  if (rules.reshuffleDiscards) labels.push(t('ruleLabel.reshuffleDiscards'));
+  if (rules.allowEightFirst) labels.push(t('ruleLabel.allowEightFirst'));
+  if (rules.decks > 1) labels.push(t('ruleLabel.decks', { count: rules.decks }));
+  if (rules.jokerEffect === 'wild') labels.push(t('ruleLabel.jokerWild'));
+  if (rules.jokerEffect === 'wildDrawFour') labels.push(t('ruleLabel.jokerDrawFour'));
+  return labels;
+};
@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { createGame } from './engine';
+import { createMatch } from './match';
+import { appendActions, startLog } from './replay';
+import { RULE_PRESETS } from './rules';
+import { SAVE_VERSION, SaveError, parseSave, toSave } from './save';
+import type { SavedGame } from './save';
+import { createSeats } from './seats';
+
+const validSave = (): SavedGame => {
+  const game = createGame(3, RULE_PRESETS[1].rules, 2);
+  return toSave(game, createSeats(2), createMatch(100), startLog(game, 0), { daily: null, assisted: false }, 0);
+};
+
+/** `parseSave` of the valid save after `damage` has changed a plain copy of it. */
+const parseDamaged = (damage: (save: any) => void) => {
+  const save = structuredClone(validSave());
+  damage(save);
+  return () => parseSave(JSON.stringify(save));
+};
+
+test('a save round-trips through JSON', () => {
+  const save = validSave();
+  assert.deepEqual(parseSave(JSON.stringify(save)), save);
+});
+
+test('a save from another version is refused', () => {
+  assert.throws(parseDamaged(save => { save.version = SAVE_VERSION - 1; }), (error: unknown) =>
+    error instanceof SaveError && error.reason.key === 'save.oldVersion');
+});
+
+test('damaged saves are refused with a SaveError', () => {
+  const damages: Record<string, (save: any) => void> = {
+    'not an object': save => { save.game = null; },
+    'missing card': save => { save.game.deck.pop(); },
+    'duplicated card': save => { save.game.deck.push(save.game.deck[0]); },
+    'unknown rule': save => { save.game.rules.extra = true; },
+    'too many decks': save => { save.game.rules.decks = 99; },
+    'bad phase': save => { save.game.phase = 'dancing'; },
+    'bad seat kind': save => { save.seats[1].kind = 'robot'; },
+    'unknown bot': save => { save.seats[1].bot = 'nobody'; },
+    'missing hand result': save => { save.match.hands = [null]; },
+    'short points': save => { save.match.hands = [{ seed: 1, winner: 0, penalties: [0, 5], points: [5] }]; },
+    'no scoring table': save => { delete save.match.scoring; },
+    'numbers as seat notes': save => { save.game.shortSuits = [5, 5]; },
+    'log of another table': save => { save.log = appendActions(save.log, [{ type: 'draw', seat: 0 }], 0); },
+  };
+  for (const [name, damage] of Object.entries(damages)) {
+    assert.throws(parseDamaged(damage), SaveError, name);
+  }
+  assert.throws(() => parseSave('{'), SaveError);
+  assert.throws(() => parseSave('[]'), SaveError);
+});
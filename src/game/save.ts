@@ -0,0 +1,187 @@
+import { english, formatText, msg } from '../i18n';
+import type { Message } from '../i18n';
+import { hasBot } from './bots';
+import { isDailyKey } from './daily';
+import type { DailyRun } from './daily';
+import { SUITS, createShoe, isRank } from './deck';
+import type { HandResult, MatchState, ScoringTable } from './match';
+import { replayStates } from './replay';
+import type { GameLog } from './replay';
+import { sanitizeRules } from './rules';
+import { MAX_SEATS, MIN_SEATS } from './seats';
+import type { SeatConfig } from './seats';
+import type { CardData, GameState, RuleSet } from './types';
+
+/** Bump whenever the shape of `SavedGame` or `GameState` changes; older saves are then refused. */
+export const SAVE_VERSION = 2;
+
+export interface SavedGame {
+  version: number;
+  savedAt: number;
+  game: GameState;
+  seats: SeatConfig[];
+  match: MatchState | null;
+  log: GameLog | null;
+  /** Set while playing a daily challenge; absent in older saves. */
+  daily?: DailyRun | null;
+  /** Hints or undo were used this hand; absent in older saves. */
+  assisted?: boolean;
+}
+
+/** The save could not be used; `reason` says why in the player's language, the message in English. */
+export class SaveError extends Error {
+  constructor(readonly reason: Message) {
+    super(formatText(english, reason));
+    this.name = 'SaveError';
+  }
+}
+
+export const toSave = (
+  game: GameState,
+  seats: SeatConfig[],
+  match: MatchState | null,
+  log: GameLog | null,
+  extras: Pick<SavedGame, 'daily' | 'assisted'> = {},
+  savedAt = Date.now(),
+): SavedGame => ({ version: SAVE_VERSION, savedAt, game, seats, match, log, ...extras });
+
+// --- Validation ---
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isCard = (value: unknown): value is CardData =>
+  isObject(value) && typeof value.id === 'string' && SUITS.includes(value.suit as never) && isRank(value.rank);
+
+const isCardList = (value: unknown): value is CardData[] => Array.isArray(value) && value.every(isCard);
+
+/** Rules exactly as `sanitizeRules` would keep them: nothing unknown, missing or out of range. */
+const isRuleSet = (value: unknown): value is RuleSet => {
+  if (!isObject(value)) return false;
+  const rules = sanitizeRules(value);
+  return Object.keys(value).length === Object.keys(rules).length
+    && Object.entries(rules).every(([key, setting]) => value[key] === setting);
+};
+
+const isSeat = (value: unknown): value is SeatConfig =>
+  isObject(value) && (value.kind === 'human' || value.kind === 'ai')
+  && typeof value.name === 'string' && typeof value.bot === 'string' && hasBot(value.bot);
+
+const isSeatIndex = (value: unknown, seatCount: number) =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) < seatCount;
+
+const isCount = (value: unknown) => Number.isInteger(value) && (value as number) >= 0;
+
+const isCountPerSeat = (value: unknown, seatCount: number) =>
+  Array.isArray(value) && value.length === seatCount && value.every(isCount);
+
+const isScoringTable = (value: unknown): value is ScoringTable =>
+  isObject(value) && isCount(value.eight) && isCount(value.face) && isCount(value.ace);
+
+const isHandResult = (value: unknown, seatCount: number): value is HandResult =>
+  isObject(value) && typeof value.seed === 'number'
+  && (value.winner === null || isSeatIndex(value.winner, seatCount))
+  && isCountPerSeat(value.penalties, seatCount) && isCountPerSeat(value.points, seatCount);
+
+/** A match whose every recorded hand has a score for each of `seatCount` seats. */
+const isMatch = (value: unknown, seatCount: number): value is MatchState =>
+  isObject(value) && typeof value.target === 'number' && value.target > 0 && isScoringTable(value.scoring)
+  && Array.isArray(value.hands) && value.hands.every(hand => isHandResult(hand, seatCount));
+
+/** Describes the first problem with `game`, or returns null if it is a playable state. */
+const gameStateProblem = (game: unknown): Message | null => {
+  if (!isObject(game)) return msg('save.problem.game');
+  if (!Array.isArray(game.hands) || game.hands.length < MIN_SEATS || game.hands.length > MAX_SEATS) {
+    return msg('save.problem.hands');
+  }
+  if (!game.hands.every(isCardList) || !isCardList(game.deck) || !isCardList(game.discardPile)) {
+    return msg('save.problem.pile');
+  }
+  if (game.discardPile.length === 0) return msg('save.problem.discard');
+  if (!isRuleSet(game.rules)) return msg('save.problem.rules');
+  if (!['playing', 'choosingSuit', 'finished'].includes(game.phase as never)) return msg('save.problem.phase');
+  if (!isSeatIndex(game.current, game.hands.length)) return msg('save.problem.current');
+  if (game.winner !== null && !isSeatIndex(game.winner, game.hands.length)) return msg('save.problem.winner');
+  if (game.activeSuit !== null && !SUITS.includes(game.activeSuit as never)) return msg('save.problem.suit');
+  if (game.direction !== 1 && game.direction !== -1) return msg('save.problem.direction');
+  if (!Array.isArray(game.shortSuits) || game.shortSuits.length !== game.hands.length
+    || !game.shortSuits.every(suits => Array.isArray(suits) && suits.every(suit => SUITS.includes(suit as never)))) {
+    return msg('save.problem.shortSuits');
+  }
+  for (const key of ['seed', 'pendingDraw', 'reshuffles', 'turnCount']) {
+    if (typeof game[key] !== 'number') return msg('save.problem.field', { field: key });
+  }
+  if (typeof game.hasDrawn !== 'boolean') return msg('save.problem.field', { field: 'hasDrawn' });
+
+  const cards: CardData[] = [...game.deck, ...game.discardPile, ...game.hands.flat()];
+  const ids = new Set(cards.map(c => c.id));
+  const expected = createShoe(game.rules);
+  if (ids.size !== cards.length || cards.length !== expected.length || expected.some(c => !ids.has(c.id))) {
+    return msg('save.problem.cards');
+  }
+  return null;
+};
+
+const corrupted = (problem: Message) => new SaveError(msg('save.corruptedBecause', { problem }));
+
+const sameTable = (a: GameState, b: GameState) =>
+  JSON.stringify([a.deck, a.hands, a.discardPile, a.current, a.phase]) ===
+  JSON.stringify([b.deck, b.hands, b.discardPile, b.current, b.phase]);
+
+/**
+ * Parses a stored save and checks it thoroughly, so that nothing half-broken
+ * reaches the engine. Throws a `SaveError` describing the first problem.
+ */
+export const parseSave = (json: string): SavedGame => {
+  let save: unknown;
+  try {
+    save = JSON.parse(json);
+  } catch {
+    throw new SaveError(msg('save.corrupted'));
+  }
+  if (!isObject(save)) throw new SaveError(msg('save.corrupted'));
+  if (save.version !== SAVE_VERSION) {
+    throw new SaveError(msg('save.oldVersion', { version: typeof save.version === 'number' ? save.version : msg('save.unknownVersion') }));
+  }
+
+  const problem = gameStateProblem(save.game);
+  if (problem) throw corrupted(problem);
+  const game = save.game as GameState;
+
+  if (!Array.isArray(save.seats) || save.seats.length !== game.hands.length
+    || !save.seats.every(isSeat)) {
+    throw corrupted(msg('save.problem.seats'));
+  }
+  if (save.match !== null && !isMatch(save.match, game.hands.length)) {
+    throw corrupted(msg('save.problem.match'));
+  }
+  if (save.daily != null && (!isObject(save.daily) || typeof save.daily.date !== 'string' || !isDailyKey(save.daily.date) || typeof save.daily.ranked !== 'boolean')) {
+    throw corrupted(msg('save.problem.daily'));
+  }
+  if (typeof save.savedAt !== 'number' || (save.assisted !== undefined && typeof save.assisted !== 'boolean')) {
+    throw new SaveError(msg('save.corrupted'));
+  }
+
+  // The history must lead to exactly the saved table, or replays and exports would lie.
+  const log = save.log as GameLog | null;
+  if (log !== null) {
+    try {
+      if (JSON.stringify(log.rules) !== JSON.stringify(game.rules)) throw new Error('mismatch');
+      const states = replayStates(log);
+      if (!sameTable(states[states.length - 1], game)) throw new Error('mismatch');
+    } catch {
+      throw corrupted(msg('save.problem.history'));
+    }
+  }
+
+  return {
+    version: SAVE_VERSION,
+    savedAt: save.savedAt,
+    game,
+    seats: save.seats,
+    match: save.match as MatchState | null,
+    log,
+    daily: save.daily as DailyRun | null | undefined,
+    assisted: save.assisted as boolean | undefined,
+  };
+};
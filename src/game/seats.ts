@@ -0,0 +1,50 @@
+export type SeatKind = 'human' | 'ai';
+
+export interface SeatConfig {
+  kind: SeatKind;
+  name: string;
+  /** Registered bot name; only meaningful for AI seats. */
+  bot: string;
+}
+
+export const MIN_SEATS = 2;
+export const MAX_SEATS = 6;
+
+export const DEFAULT_BOT = 'normal';
+
+/** In `createSeats`' `bots`, marks a seat for another person at the same device. */
+export const HUMAN_SEAT = 'human';
+
+/** How `createSeats` names seats; the English names are the default. */
+export interface SeatNames {
+  you: string;
+  player: (n: number) => string;
+  ai: (n: number | null) => string;
+}
+
+export const ENGLISH_SEAT_NAMES: SeatNames = {
+  you: 'You',
+  player: n => `Player ${n}`,
+  ai: n => (n === null ? 'AI' : `AI ${n}`),
+};
+
+/**
+ * Seat 0 is always human. `bots[i]` is the bot for seat `i + 1`, or
+ * `HUMAN_SEAT` for pass-and-play. A lone human is "You"; with several,
+ * everyone is "Player n". AI seats are numbered when there is more than one.
+ */
+export const createSeats = (count: number, bots: string[] = [], names: SeatNames = ENGLISH_SEAT_NAMES): SeatConfig[] => {
+  const kinds = Array.from({ length: count }, (_, seat) => (seat === 0 || bots[seat - 1] === HUMAN_SEAT ? 'human' : 'ai'));
+  const humans = kinds.filter(kind => kind === 'human').length;
+  const ais = count - humans;
+  let aiNumber = 0;
+  return kinds.map((kind, seat): SeatConfig => {
+    if (kind === 'human') return { kind, name: humans > 1 ? names.player(seat + 1) : names.you, bot: DEFAULT_BOT };
+    aiNumber++;
+    return { kind, name: names.ai(ais > 1 ? aiNumber : null), bot: bots[seat - 1] ?? DEFAULT_BOT };
+  });
+};
+
+/** Every seat an AI, for watching bots play each other; `bots[i]` is the bot for seat `i`. */
+export const createBotSeats = (count: number, bots: string[] = [], names: SeatNames = ENGLISH_SEAT_NAMES): SeatConfig[] =>
+  Array.from({ length: count }, (_, seat): SeatConfig => ({ kind: 'ai', name: names.ai(seat + 1), bot: bots[seat] ?? DEFAULT_BOT }));
@@ -0,0 +1,58 @@
+import { runBotTurn } from './bot';
+import type { Bot } from './bot';
+import { createGame, isWild } from './engine';
+import type { GameState, RuleSet } from './types';
+
+/** Games still running after this many turns are recorded as unfinished. */
+export const MAX_TURNS = 1000;
+
+export interface GameRecord {
+  seed: number;
+  winner: number | null;
+  turns: number;
+  /** 8s played, per seat. */
+  eightsPlayed: number[];
+  /** Wild cards played, per seat: the 8s plus wild jacks and jokers. */
+  wildsPlayed: number[];
+  /** Whether the draw pile was empty at any point. */
+  deckRanOut: boolean;
+}
+
+/**
+ * Plays one game headlessly, one bot per seat, through the same engine the
+ * UI uses. A bot's illegal move propagates as a `BotMoveError`.
+ */
+export const playGame = (seed: number, rules: RuleSet, bots: Bot[]): GameRecord => {
+  let state: GameState = createGame(seed, rules, bots.length);
+  const eightsPlayed = bots.map(() => 0);
+  const wildsPlayed = bots.map(() => 0);
+  let deckRanOut = false;
+
+  while (state.phase !== 'finished' && state.turnCount < MAX_TURNS) {
+    const seat = state.current;
+    const before = state;
+    const turn = runBotTurn(state, seat, bots[seat]);
+    for (const action of turn.actions) {
+      if (action.type !== 'play') continue;
+      const card = before.hands[seat].find(c => c.id === action.cardId);
+      if (card?.rank === '8') eightsPlayed[seat]++;
+      if (card && isWild(card, rules)) wildsPlayed[seat]++;
+    }
+    state = turn.state;
+    if (state.deck.length === 0 || state.reshuffles > 0) deckRanOut = true;
+  }
+
+  return { seed, winner: state.winner, turns: state.turnCount, eightsPlayed, wildsPlayed, deckRanOut };
+};
+
+// --- Statistics ---
+
+/** 95% Wilson score interval for `wins` out of `games`. */
+export const wilsonInterval = (wins: number, games: number, z = 1.96): [number, number] => {
+  if (games === 0) return [0, 0];
+  const p = wins / games;
+  const denominator = 1 + (z * z) / games;
+  const centre = p + (z * z) / (2 * games);
+  const margin = z * Math.sqrt((p * (1 - p)) / games + (z * z) / (4 * games * games));
+  return [(centre - margin) / denominator, (centre + margin) / denominator];
+};
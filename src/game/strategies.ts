@@ -0,0 +1,230 @@
+import { msg, suitMsg } from '../i18n';
+import type { Message } from '../i18n';
+import { runBotTurn, seatView } from './bot';
+import type { Bot, Move, SeatView } from './bot';
+import { SUITS, isJoker } from './deck';
+import { applyAction, isWild } from './engine';
+import { explainMove } from './hints';
+import { determinize, unseenCards } from './knowledge';
+import type { Action, CardData, GameState, Suit } from './types';
+
+const pick = <T,>(items: T[], random: () => number): T => items[Math.floor(random() * items.length)];
+
+/** Most frequent suit in the hand, not counting jokers; ties go to the earlier suit in `SUITS`. */
+export const mostFrequentSuit = (hand: CardData[]): Suit => {
+  const suitsInHand = hand.filter(c => !isJoker(c)).map(c => c.suit);
+  return SUITS.reduce((a, b) =>
+    suitsInHand.filter(s => s === a).length >= suitsInHand.filter(s => s === b).length ? a : b
+  );
+};
+
+/**
+ * The turn shape shared by the built-in bots: play what `chooseCard` picks,
+ * otherwise draw as the rules allow and pass when they must. `chooseSuit`
+ * gets the hand as it will be once the wild card has left it.
+ */
+export const basicMove = (
+  view: SeatView,
+  random: () => number,
+  chooseCard: (view: SeatView, random: () => number) => CardData,
+  chooseSuit: (view: SeatView, hand: CardData[], random: () => number) => Suit,
+): Move => {
+  if (view.phase === 'choosingSuit') {
+    return { type: 'chooseSuit', suit: chooseSuit(view, view.hand, random) };
+  }
+  if (view.playable.length > 0) {
+    const card = chooseCard(view, random);
+    if (!isWild(card, view.rules)) return { type: 'play', cardId: card.id };
+    const rest = view.hand.filter(c => c.id !== card.id);
+    return { type: 'play', cardId: card.id, suit: chooseSuit(view, rest, random) };
+  }
+  if (view.hasDrawn && view.rules.drawPolicy !== 'untilPlayable' && view.canPass) {
+    return { type: 'pass' };
+  }
+  return view.canDraw ? { type: 'draw' } : { type: 'pass' };
+};
+
+/**
+ * Explains a `basicMove`: `cardReasons` for the card played and
+ * `suitReasons` for the suit named (given the hand without the wild card).
+ * Draws and passes follow the rules, so they get the general reasons.
+ */
+export const explainBasic = (
+  view: SeatView,
+  move: Move,
+  cardReasons: (view: SeatView, card: CardData) => Message[],
+  suitReasons: (view: SeatView, suit: Suit, hand: CardData[]) => Message[],
+): Message[] => {
+  if (move.type === 'chooseSuit') return suitReasons(view, move.suit, view.hand);
+  if (move.type !== 'play') return explainMove(view, move);
+  const card = view.hand.find(c => c.id === move.cardId)!;
+  const rest = view.hand.filter(c => c.id !== card.id);
+  return [...cardReasons(view, card), ...(move.suit ? suitReasons(view, move.suit, rest) : [])];
+};
+
+// --- Easy ---
+
+/** Plays any legal card and names any suit. */
+export const easyBot: Bot = {
+  name: 'easy',
+  label: 'Easy',
+  description: 'Plays a random legal card.',
+  chooseMove: (view, random) => basicMove(
+    view,
+    random,
+    (v, r) => pick(v.playable, r),
+    (_v, _hand, r) => pick(SUITS, r),
+  ),
+  explain: (view, move) => explainBasic(
+    view,
+    move,
+    (v) => [msg('why.randomCard', { count: v.playable.length })],
+    () => [msg('why.randomSuit')],
+  ),
+};
+
+// --- Normal ---
+
+/** Plays the first non-wild card it can and names its most frequent suit. */
+export const normalBot: Bot = {
+  name: 'normal',
+  label: 'Normal',
+  description: 'Saves wild cards and names its longest suit.',
+  chooseMove: (view, random) => basicMove(
+    view,
+    random,
+    (v) => v.playable.find(c => !isWild(c, v.rules)) || v.playable[0],
+    (_v, hand) => mostFrequentSuit(hand),
+  ),
+  explain: (view, move) => explainBasic(
+    view,
+    move,
+    (v, card) => (isWild(card, v.rules) ? [msg('why.onlyWild')]
+      : v.playable.some(c => isWild(c, v.rules)) ? [msg('why.firstPlain'), msg('why.savesWild')]
+        : [msg('why.firstPlain')]),
+    (_v, suit) => [msg('why.longestSuit', { suit: suitMsg(suit) })],
+  ),
+};
+
+// --- Hard ---
+
+/** Determinized worlds sampled per decision. */
+const HARD_SAMPLES = 40;
+/** Rollouts longer than this are scored by hand size instead of by winner. */
+const ROLLOUT_TURN_LIMIT = 120;
+/** An opponent this close to going out justifies spending a wild card. */
+const EMERGENCY_HAND_SIZE = 2;
+
+const applyAll = (state: GameState, actions: Action[]): GameState => {
+  let current = state;
+  for (const action of actions) {
+    const result = applyAction(current, action);
+    if (result.ok === false) break;
+    current = result.state;
+  }
+  return current;
+};
+
+/** What `hardSuit` weighs for each suit. */
+const suitFactors = (view: SeatView, hand: CardData[], suit: Suit, unseen = unseenCards(view)) => ({
+  held: hand.filter(c => !isWild(c, view.rules) && c.suit === suit).length,
+  short: view.shortSuits.filter((suits, other) => other !== view.seat && suits.includes(suit)).length,
+  unseen: unseen.filter(c => !isJoker(c) && c.suit === suit).length,
+});
+
+/**
+ * Prefers suits it holds, suits opponents were seen drawing on, and suits
+ * with few cards still unseen (so few left for anyone else).
+ */
+const hardSuit = (view: SeatView, hand: CardData[]): Suit => {
+  const notSeen = unseenCards(view);
+  const score = (suit: Suit) => {
+    const { held, short, unseen } = suitFactors(view, hand, suit, notSeen);
+    return 2 * held + 3 * short - 0.25 * unseen;
+  };
+  return SUITS.reduce((a, b) => (score(a) >= score(b) ? a : b));
+};
+
+/** Plays a sampled world out with Normal bots; 1 for a win, 0.5 if ahead at the limit. */
+const rollout = (world: GameState, seat: number, random: () => number): number => {
+  let state = world;
+  for (let turns = 0; state.phase !== 'finished' && turns < ROLLOUT_TURN_LIMIT; turns++) {
+    state = runBotTurn(state, state.current, normalBot, random).state;
+  }
+  if (state.phase === 'finished') return state.winner === seat ? 1 : 0;
+  const fewest = Math.min(...state.hands.filter((_, other) => other !== seat).map(h => h.length));
+  return state.hands[seat].length <= fewest ? 0.5 : 0;
+};
+
+/**
+ * The cards `hardCard` searches: plain ones, plus wild cards when nothing
+ * else fits or in an emergency. Copies from other decks play the same, so
+ * each rank and suit is searched once.
+ */
+const hardCandidates = (view: SeatView) => {
+  const plain = view.playable.filter((c, i) => !isWild(c, view.rules)
+    && view.playable.findIndex(o => o.rank === c.rank && o.suit === c.suit) === i);
+  const emergency = view.handSizes.some((size, other) => other !== view.seat && size <= EMERGENCY_HAND_SIZE);
+  const wilds = view.playable.filter(c => isWild(c, view.rules));
+  const oneWildPerRank = wilds.filter((c, i) => wilds.findIndex(w => w.rank === c.rank) === i);
+  const candidates: CardData[] = plain.length > 0 && !emergency ? plain : [...plain, ...oneWildPerRank];
+  return { candidates, emergency, holdsWild: wilds.length > 0 };
+};
+
+/**
+ * Holds wild cards unless nothing else is playable or an opponent is about
+ * to go out, then scores each remaining candidate with a determinized Monte
+ * Carlo search over the cards it has not seen.
+ */
+const hardCard = (view: SeatView, random: () => number): CardData => {
+  const { candidates } = hardCandidates(view);
+  if (candidates.length === 1) return candidates[0];
+
+  const worlds = Array.from({ length: HARD_SAMPLES }, () => determinize(view, random));
+  let best = candidates[0];
+  let bestScore = -Infinity;
+  for (const card of candidates) {
+    let total = 0;
+    for (const world of worlds) {
+      let next = applyAll(world, [{ type: 'play', seat: view.seat, cardId: card.id }]);
+      if (next.phase === 'choosingSuit') {
+        const suit = hardSuit(seatView(next, view.seat), next.hands[view.seat]);
+        next = applyAll(next, [{ type: 'chooseSuit', seat: view.seat, suit }]);
+      }
+      total += rollout(next, view.seat, random);
+    }
+    if (total > bestScore) {
+      best = card;
+      bestScore = total;
+    }
+  }
+  return best;
+};
+
+export const hardBot: Bot = {
+  name: 'hard',
+  label: 'Hard',
+  description: 'Tracks seen cards and searches likely deals with Monte Carlo rollouts.',
+  chooseMove: (view, random) => basicMove(view, random, hardCard, (v, hand) => hardSuit(v, hand)),
+  explain: (view, move) => explainBasic(
+    view,
+    move,
+    (v, card) => {
+      const { candidates, emergency, holdsWild } = hardCandidates(v);
+      const reasons: Message[] = candidates.length === 1
+        ? [msg(isWild(card, v.rules) ? 'why.onlyWild' : 'why.onlyCandidate')]
+        : [msg('why.rollouts', { count: candidates.length, samples: HARD_SAMPLES })];
+      if (emergency && holdsWild) reasons.push(msg('why.emergency'));
+      else if (holdsWild && !isWild(card, v.rules)) reasons.push(msg('why.savesWild'));
+      return reasons;
+    },
+    (v, suit, hand) => {
+      const { held, short, unseen } = suitFactors(v, hand, suit);
+      return [
+        msg('why.suitHeld', { suit: suitMsg(suit), count: held }),
+        ...(short > 0 ? [msg('why.suitShort', { count: short })] : []),
+        msg('why.suitUnseen', { count: unseen }),
+      ];
+    },
+  ),
+};
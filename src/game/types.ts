@@ -0,0 +1,116 @@
+// --- Cards ---
+
+export type Suit = 'hearts' | 'diamonds' | 'clubs' | 'spades';
+export type Rank = 'A' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9' | '10' | 'J' | 'Q' | 'K' | 'Joker';
+
+export interface CardData {
+  /** Unique within the game, even when several decks are shuffled together. */
+  id: string;
+  /** A joker's suit only gives its colour; it never matches or counts towards a suit. */
+  suit: Suit;
+  rank: Rank;
+}
+
+// --- Rules ---
+
+/**
+ * - `unlimited`: draw as often as you like; passing is allowed once you have drawn.
+ * - `drawOneThenPass`: draw at most one card, then play or pass.
+ * - `untilPlayable`: only draw when nothing is playable, and keep drawing until something is.
+ */
+export type DrawPolicy = 'unlimited' | 'drawOneThenPass' | 'untilPlayable';
+
+/** `wild` is the Mao-style jack: playable on anything, and names a suit like an 8. */
+export type JackEffect = 'none' | 'drawFive' | 'wild';
+
+/** `none` leaves the jokers out; otherwise they are wild, and `wildDrawFour` also makes the next seat draw four. */
+export type JokerEffect = 'none' | 'wild' | 'wildDrawFour';
+
+export interface RuleSet {
+  /** 2 makes the next seat draw two. */
+  drawTwo: boolean;
+  /** A seat facing a draw-two may answer with its own 2 and pass the total on. */
+  stackDrawTwo: boolean;
+  /** Q skips the next seat. */
+  queenSkips: boolean;
+  /** A reverses the turn order; with two seats it acts as a skip. */
+  aceReverses: boolean;
+  jackEffect: JackEffect;
+  drawPolicy: DrawPolicy;
+  /** Shuffle the discard pile (minus its top card) back in when the deck runs out. */
+  reshuffleDiscards: boolean;
+  /** Allow the first discard of the deal to be an 8. */
+  allowEightFirst: boolean;
+  /** Standard decks shuffled together, from 1 to `MAX_DECKS`. */
+  decks: number;
+  /** Two jokers join each deck unless this is `none`. */
+  jokerEffect: JokerEffect;
+}
+
+// --- Game State ---
+
+export type GamePhase = 'playing' | 'choosingSuit' | 'finished';
+
+/**
+ * Everything needed to continue a game. Plain data only, so a state can be
+ * cloned, serialized or sent over the wire without losing anything.
+ */
+export interface GameState {
+  seed: number;
+  rules: RuleSet;
+  deck: CardData[];
+  /** One hand per seat; seat 0 is the first to act. */
+  hands: CardData[][];
+  discardPile: CardData[];
+  /** Suit named by the last 8, overriding the top discard's suit. */
+  activeSuit: Suit | null;
+  /** Seat whose turn it is. */
+  current: number;
+  /** 1 for increasing seat order, -1 after an odd number of reverses. */
+  direction: 1 | -1;
+  /** Cards the current seat must draw unless it can stack. */
+  pendingDraw: number;
+  /** How many times the discard pile has been shuffled back into the deck. */
+  reshuffles: number;
+  phase: GamePhase;
+  winner: number | null;
+  /**
+   * Public inference per seat: suits it drew on (so was likely out of), until
+   * it is seen playing that suit again.
+   */
+  shortSuits: Suit[][];
+  /** Whether the current seat has drawn at least once this turn. */
+  hasDrawn: boolean;
+  turnCount: number;
+}
+
+// --- Actions ---
+
+export type Action =
+  | { type: 'play'; seat: number; cardId: string }
+  | { type: 'draw'; seat: number }
+  | { type: 'chooseSuit'; seat: number; suit: Suit }
+  | { type: 'pass'; seat: number };
+
+export type EngineErrorCode =
+  | 'GAME_OVER'
+  | 'NOT_YOUR_TURN'
+  | 'SUIT_CHOICE_PENDING'
+  | 'NO_SUIT_CHOICE_PENDING'
+  | 'INVALID_SUIT'
+  | 'CARD_NOT_IN_HAND'
+  | 'CARD_NOT_PLAYABLE'
+  | 'PENALTY_PENDING'
+  | 'ALREADY_DREW'
+  | 'MUST_PLAY'
+  | 'DECK_EMPTY'
+  | 'CANNOT_PASS';
+
+export interface EngineError {
+  code: EngineErrorCode;
+  message: string;
+}
+
+export type ActionResult =
+  | { ok: true; state: GameState }
+  | { ok: false; error: EngineError };
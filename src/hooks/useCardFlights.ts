@@ -0,0 +1,122 @@
+import { useCallback, useMemo, useRef, useState } from 'react';
+import { useReducedMotion } from 'motion/react';
+import type { CardData, GameState } from '../game/types';
+
+/** Seconds a card spends in the air, and between cards that leave one after another, at normal pace. */
+const FLIGHT_DURATION = 0.45;
+const FLIGHT_STAGGER = 0.05;
+
+/**
+ * Where a flight starts or ends, matched by `data-flight` on the table: the
+ * piles, or a seat's hand. A seat anchor lands on `card` when that card is
+ * laid out in the hand already, otherwise on the hand's last card.
+ */
+export type FlightAnchor = 'deck' | 'discard' | { seat: number; card?: string };
+
+export interface CardMove {
+  card: CardData;
+  from: FlightAnchor;
+  to: FlightAnchor;
+  faceUp: boolean;
+}
+
+export interface Rect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface Flight {
+  key: number;
+  card: CardData;
+  faceUp: boolean;
+  from: Rect;
+  to: FlightAnchor;
+  /** Seconds to wait on the source before taking off, then to spend in the air. */
+  delay: number;
+  duration: number;
+}
+
+/** The on-screen box of an anchor: a card inside it (`data-card`), or the anchor itself. */
+export const anchorRect = (anchor: FlightAnchor): Rect | null => {
+  const name = typeof anchor === 'string' ? anchor : `seat-${anchor.seat}`;
+  const element = document.querySelector(`[data-flight="${name}"]`);
+  if (!element) return null;
+  const cards = element.querySelectorAll('[data-card]');
+  const card = typeof anchor === 'object' && anchor.card
+    ? element.querySelector(`[data-card="${CSS.escape(anchor.card)}"]`)
+    : null;
+  const { left, top, width, height } = (card ?? cards[cards.length - 1] ?? element).getBoundingClientRect();
+  return { left, top, width, height };
+};
+
+/** The deal, one card per seat at a time, then the first discard. */
+export const dealMoves = (state: GameState, faceUpSeat: number | null): CardMove[] => {
+  const moves: CardMove[] = [];
+  const rounds = Math.max(...state.hands.map(hand => hand.length));
+  for (let i = 0; i < rounds; i++) {
+    state.hands.forEach((hand, seat) => {
+      if (hand[i]) moves.push({ card: hand[i], from: 'deck', to: { seat, card: hand[i].id }, faceUp: seat === faceUpSeat });
+    });
+  }
+  const first = state.discardPile[state.discardPile.length - 1];
+  if (first) moves.push({ card: first, from: 'deck', to: 'discard', faceUp: true });
+  return moves;
+};
+
+/** What one seat's turn moved: the cards it drew, then the card it played. */
+export const turnMoves = (before: GameState, after: GameState, seat: number, showDrawn: boolean): CardMove[] => {
+  const held = new Set(before.hands[seat].map(card => card.id));
+  const kept = new Set(after.hands[seat].map(card => card.id));
+  const drawn = after.hands[seat].filter(card => !held.has(card.id));
+  const played = before.hands[seat].filter(card => !kept.has(card.id));
+  return [
+    ...drawn.map((card): CardMove => ({ card, from: 'deck', to: { seat, card: card.id }, faceUp: showDrawn })),
+    ...played.map((card): CardMove => ({ card, from: { seat, card: card.id }, to: 'discard', faceUp: true })),
+  ];
+};
+
+/**
+ * Cards flying between the piles and the hands. `launch` measures where each
+ * card leaves from straight away, before the new state is drawn; the overlay
+ * finds where it lands once it is. Until then the card is in `flying`, so the
+ * table can keep it out of sight, and `isBusy` tells input handlers to wait.
+ * `pace` speeds flights up along with the game. With reduced motion nothing
+ * flies and cards just appear.
+ */
+export const useCardFlights = () => {
+  const reduceMotion = useReducedMotion();
+  const [flights, setFlights] = useState<Flight[]>([]);
+  const nextKey = useRef(0);
+  const inAir = useRef(new Set<number>());
+
+  const launch = useCallback((moves: CardMove[], pace = 1) => {
+    if (reduceMotion) return;
+    const launched = moves.flatMap((move, i): Flight[] => {
+      const from = anchorRect(move.from);
+      if (!from) return [];
+      return [{
+        key: nextKey.current++,
+        card: move.card,
+        faceUp: move.faceUp,
+        from,
+        to: move.to,
+        delay: (i * FLIGHT_STAGGER) / pace,
+        duration: FLIGHT_DURATION / pace,
+      }];
+    });
+    for (const flight of launched) inAir.current.add(flight.key);
+    setFlights(prev => [...prev, ...launched]);
+  }, [reduceMotion]);
+
+  const land = useCallback((key: number) => {
+    inAir.current.delete(key);
+    setFlights(prev => prev.filter(flight => flight.key !== key));
+  }, []);
+
+  const flying = useMemo(() => new Set(flights.map(flight => flight.card.id)), [flights]);
+  const isBusy = useCallback(() => inAir.current.size > 0, []);
+
+  return { flights, flying, launch, land, isBusy };
+};
@@ -0,0 +1,51 @@
+import { useEffect, useRef } from 'react';
+
+/** Open traps, innermost last; only that one handles Tab. */
+const openTraps: HTMLElement[] = [];
+
+const FOCUSABLE = 'button:not([disabled]), a[href], input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+/**
+ * Keeps Tab and Shift+Tab inside the returned ref's element while `active`,
+ * focuses its first control on opening and gives focus back on closing.
+ * Traps nest: a dialog opened over another one takes over until it closes.
+ */
+export const useFocusTrap = <T extends HTMLElement>(active = true) => {
+  const ref = useRef<T>(null);
+
+  useEffect(() => {
+    const container = ref.current;
+    if (!active || !container) return;
+    const previous = document.activeElement as HTMLElement | null;
+    openTraps.push(container);
+    const focusable = () => [...container.querySelectorAll<HTMLElement>(FOCUSABLE)];
+    (focusable()[0] ?? container).focus();
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Tab' || openTraps[openTraps.length - 1] !== container) return;
+      const items = focusable();
+      if (items.length === 0) {
+        e.preventDefault();
+        return;
+      }
+      const first = items[0];
+      const last = items[items.length - 1];
+      if (e.shiftKey && (document.activeElement === first || !container.contains(document.activeElement))) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && (document.activeElement === last || !container.contains(document.activeElement))) {
+        e.preventDefault();
+        first.focus();
+      }
+    };
+
+    document.addEventListener('keydown', onKeyDown);
+    return () => {
+      document.removeEventListener('keydown', onKeyDown);
+      openTraps.splice(openTraps.indexOf(container), 1);
+      previous?.focus?.();
+    };
+  }, [active]);
+
+  return ref;
+};
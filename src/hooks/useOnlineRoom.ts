@@ -0,0 +1,140 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Move } from '../game/bot';
+import type { ClientMessage, ServerMessage } from '../game/protocol';
+import type { RuleSet } from '../game/types';
+import { msg } from '../i18n';
+import type { Message } from '../i18n';
+
+export type LobbyMessage = Extract<ServerMessage, { type: 'lobby' }>;
+export type TableMessage = Extract<ServerMessage, { type: 'state' }>;
+
+interface RoomSession {
+  code: string;
+  token: string;
+}
+
+const SESSION_KEY = 'crazy-eights:online-session';
+/** Wait before trying to reclaim the seat after the socket drops. */
+const RECONNECT_DELAY_MS = 1500;
+
+const socketUrl = () => `${location.protocol === 'https:' ? 'wss' : 'ws'}://${location.host}/ws`;
+
+const readSession = (): RoomSession | null => {
+  try {
+    return JSON.parse(sessionStorage.getItem(SESSION_KEY) ?? 'null');
+  } catch {
+    return null;
+  }
+};
+
+const writeSession = (session: RoomSession | null) => {
+  try {
+    if (session) sessionStorage.setItem(SESSION_KEY, JSON.stringify(session));
+    else sessionStorage.removeItem(SESSION_KEY);
+  } catch {
+    // Reconnecting after a reload just won't be offered.
+  }
+};
+
+/**
+ * One connection to the game server. Keeps the seat token for the tab's
+ * session, and reclaims the seat automatically when the socket drops.
+ */
+export const useOnlineRoom = () => {
+  const socketRef = useRef<WebSocket | null>(null);
+  const sessionRef = useRef<RoomSession | null>(readSession());
+  const leavingRef = useRef(false);
+  const [connecting, setConnecting] = useState(false);
+  const [seat, setSeat] = useState<number | null>(null);
+  const [lobby, setLobby] = useState<LobbyMessage | null>(null);
+  const [table, setTable] = useState<TableMessage | null>(null);
+  const [error, setError] = useState<Message | null>(null);
+
+  const connect = useCallback((first: ClientMessage) => {
+    socketRef.current?.close();
+    leavingRef.current = false;
+    setConnecting(true);
+    setError(null);
+
+    const socket = new WebSocket(socketUrl());
+    socketRef.current = socket;
+
+    socket.onopen = () => socket.send(JSON.stringify(first));
+    socket.onmessage = (event) => {
+      const message: ServerMessage = JSON.parse(event.data);
+      switch (message.type) {
+        case 'joined':
+          sessionRef.current = { code: message.code, token: message.token };
+          writeSession(sessionRef.current);
+          setSeat(message.seat);
+          setConnecting(false);
+          break;
+        case 'lobby':
+          setLobby(message);
+          break;
+        case 'state':
+          setTable(message);
+          break;
+        case 'error':
+          setConnecting(false);
+          setError(msg(`error.${message.code}`, message.params));
+          if (message.code === 'BAD_TOKEN' || message.code === 'ROOM_NOT_FOUND') {
+            sessionRef.current = null;
+            writeSession(null);
+          }
+          break;
+      }
+    };
+    socket.onclose = () => {
+      if (socketRef.current !== socket || leavingRef.current) return;
+      setConnecting(false);
+      const session = sessionRef.current;
+      if (!session) return;
+      setError(msg('online.reconnecting'));
+      setTimeout(() => {
+        if (socketRef.current === socket && !leavingRef.current) {
+          connect({ type: 'rejoin', code: session.code, token: session.token });
+        }
+      }, RECONNECT_DELAY_MS);
+    };
+  }, []);
+
+  useEffect(() => () => {
+    leavingRef.current = true;
+    socketRef.current?.close();
+  }, []);
+
+  const send = useCallback((message: ClientMessage) => {
+    const socket = socketRef.current;
+    if (socket && socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  }, []);
+
+  const leave = useCallback(() => {
+    leavingRef.current = true;
+    send({ type: 'leave' });
+    socketRef.current?.close();
+    socketRef.current = null;
+    sessionRef.current = null;
+    writeSession(null);
+    setSeat(null);
+    setLobby(null);
+    setTable(null);
+    setError(null);
+  }, [send]);
+
+  return {
+    connecting,
+    seat,
+    lobby,
+    table,
+    error,
+    /** A seat this tab held before a reload, which `rejoin` can reclaim. */
+    savedSession: seat === null ? sessionRef.current : null,
+    create: (name: string, seatCount: number, rules: RuleSet) => connect({ type: 'create', name, seatCount, rules }),
+    join: (code: string, name: string) => connect({ type: 'join', code: code.trim().toUpperCase(), name }),
+    rejoin: (session: RoomSession) => connect({ type: 'rejoin', code: session.code, token: session.token }),
+    start: () => send({ type: 'start' }),
+    move: (move: Move) => send({ type: 'move', move }),
+    leave,
+  };
+};
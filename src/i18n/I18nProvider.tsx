@@ -0,0 +1,46 @@
+import { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import type { ReactNode } from 'react';
+import { formatText, translator } from './index';
+import type { Language, Text, Translate } from './index';
+import { loadLanguage, storeLanguage } from '../utils/storage';
+
+interface I18n {
+  language: Language;
+  setLanguage: (language: Language) => void;
+  t: Translate;
+  /** Translates a stored `Text`, e.g. the status line. */
+  tx: (text: Text) => string;
+}
+
+const I18nContext = createContext<I18n | null>(null);
+
+/** Holds the chosen language, remembers it between sessions and tags and titles the page with it. */
+export function I18nProvider({ children }: { children: ReactNode }) {
+  const [language, setLanguage] = useState<Language>(loadLanguage);
+
+  const value = useMemo((): I18n => {
+    const t = translator(language);
+    return {
+      language,
+      setLanguage: (next) => {
+        setLanguage(next);
+        storeLanguage(next);
+      },
+      t,
+      tx: (text) => formatText(t, text),
+    };
+  }, [language]);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+    document.title = value.t('app.title');
+  }, [value]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export const useI18n = (): I18n => {
+  const i18n = useContext(I18nContext);
+  if (!i18n) throw new Error('useI18n must be used inside <I18nProvider>.');
+  return i18n;
+};
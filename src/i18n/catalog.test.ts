@@ -0,0 +1,28 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { en } from './en';
+import { LANGUAGES, msg, translator } from './index';
+
+const placeholders = (text: string): string[] => [...new Set(text.match(/\{\w+\}/g) ?? [])].sort();
+
+test('every language translates exactly the English keys', () => {
+  const keys = Object.keys(en).sort();
+  for (const { id, catalog } of LANGUAGES) {
+    assert.deepEqual(Object.keys(catalog).sort(), keys, id);
+  }
+});
+
+test('every translation fills the same placeholders as the English text', () => {
+  for (const { id, catalog } of LANGUAGES) {
+    for (const [key, text] of Object.entries(en)) {
+      assert.deepEqual(placeholders(catalog[key as keyof typeof en]), placeholders(text), `${id} ${key}`);
+    }
+  }
+});
+
+test('nested messages and lists are translated in the same language', () => {
+  const card = msg('card.name', { rank: msg('rank.7'), suit: msg('suit.hearts') });
+  assert.equal(translator('en')('log.play', { name: 'Ada', card }), 'Ada played 7 of hearts.');
+  assert.equal(translator('en')('log.draw', { name: 'Ada', cards: [card, card] }), 'Ada drew 7 of hearts, 7 of hearts.');
+  assert.equal(translator('zh-CN')('log.play', { name: 'Ada', card }), 'Ada 打出红桃7。');
+});
@@ -0,0 +1,452 @@
+/**
+ * The English catalog. Its keys define `MessageKey`; every other language
+ * must translate all of them. `{name}` placeholders are filled from params.
+ */
+export const en = {
+  // --- App ---
+  'app.title': 'Mount Tai Feng Shui · Crazy Eights',
+  'app.footer': "Built with React & Tailwind • Tina's Crazy Eights v1.0",
+  'language.label': 'Language',
+  'common.close': 'Close',
+  'text.separator': ' ',
+  'list.separator': ', ',
+  'reasons.separator': '; ',
+
+  // --- Cards ---
+  'suit.hearts': 'hearts',
+  'suit.diamonds': 'diamonds',
+  'suit.clubs': 'clubs',
+  'suit.spades': 'spades',
+  'rank.A': 'ace',
+  'rank.2': '2',
+  'rank.3': '3',
+  'rank.4': '4',
+  'rank.5': '5',
+  'rank.6': '6',
+  'rank.7': '7',
+  'rank.8': '8',
+  'rank.9': '9',
+  'rank.10': '10',
+  'rank.J': 'jack',
+  'rank.Q': 'queen',
+  'rank.K': 'king',
+  'rank.Joker': 'joker',
+  'card.name': '{rank} of {suit}',
+  'card.playable': '{card}, playable',
+  'card.faceDown': 'face-down card',
+  'card.redJoker': 'red joker',
+  'card.blackJoker': 'black joker',
+
+  // --- Seats and Bots ---
+  'seat.you': 'You',
+  'seat.player': 'Player {n}',
+  'seat.ai': 'AI',
+  'seat.aiNumbered': 'AI {n}',
+  'seat.numbered': 'Seat {n}',
+  'bot.easy': 'Easy',
+  'bot.easy.description': 'Plays a random legal card.',
+  'bot.normal': 'Normal',
+  'bot.normal.description': 'Saves wild cards and names its longest suit.',
+  'bot.hard': 'Hard',
+  'bot.hard.description': 'Tracks seen cards and searches likely deals with Monte Carlo rollouts.',
+
+  // --- Status Line ---
+  'status.welcome': "Welcome to Tina's Crazy Eights!",
+  'status.firstTurn': 'Your turn! Match the suit or rank.',
+  'status.startsFirst': '{name} starts. Match the suit or rank.',
+  'status.welcomeBack': 'Welcome back!',
+  'status.welcomeBackTurn': 'Welcome back! Your turn.',
+  'status.dailyRanked': "Today's challenge! Your turn.",
+  'status.dailyPractice': 'Practising the {date} challenge. Your turn.',
+  'status.newHand': 'New hand!',
+  'status.yourTurn': 'Your turn!',
+  'status.seatTurn': "{name}'s turn.",
+  'status.thinking': '{name} is thinking...',
+  'status.chooseSuit': 'Choose a new suit!',
+  'status.youDrewPenalty': 'You drew {count} cards.',
+  'status.youDrew': 'You drew a card.',
+  'status.reshuffledYouDrew': 'Discards reshuffled. You drew a card.',
+  'status.deckEmptySkip': 'Deck is empty! Skipping turn.',
+  'status.youPassed': 'You passed.',
+  'status.youChose': 'You chose {suit}.',
+  'status.undone': 'Took back your last turn. Your turn!',
+  'status.youWon': 'Congratulations! You won!',
+  'status.seatWon': '{name} won!',
+  'status.aiWon': '{name} won! Better luck next time.',
+  'status.importFailed': 'That file is not a readable replay.',
+  'effect.youMustDraw': 'You must draw {count} or stack a 2.',
+  'effect.mustDraw': '{name} must draw {count} or stack a 2.',
+  'effect.youSkipped': 'Your turn is skipped.',
+  'effect.skipped': '{name} is skipped.',
+  'effect.reversed': 'Play order reversed.',
+  'ai.playedEight': '{name} played an 8 and chose {suit}!',
+  'ai.playedWildJack': '{name} played a wild J and chose {suit}!',
+  'ai.playedJoker': '{name} played a joker and chose {suit}!',
+  'ai.playedAction': '{name} played the {card}!',
+  'ai.drewAndPlayed': '{name} drew a card and played it.',
+  'ai.drewOne': '{name} drew a card.',
+  'ai.drewMany': '{name} drew {count} cards.',
+  'ai.botReplaced': "{name}'s {bot} bot tried an illegal move, so a built-in bot played this turn.",
+
+  // --- Rule Errors ---
+  'error.GAME_OVER': 'The game is already over.',
+  'error.NOT_YOUR_TURN': 'It is not your turn.',
+  'error.SUIT_CHOICE_PENDING': 'Choose a suit for the wild card first.',
+  'error.NO_SUIT_CHOICE_PENDING': 'There is no wild card waiting for a suit.',
+  'error.INVALID_SUIT': 'That is not a suit.',
+  'error.CARD_NOT_IN_HAND': 'That card is not in your hand.',
+  'error.CARD_NOT_PLAYABLE': 'The {card} does not match the discard pile.',
+  'error.PENALTY_PENDING': 'Draw {count} cards or stack a 2.',
+  'error.ALREADY_DREW': 'You may only draw one card per turn.',
+  'error.MUST_PLAY': 'You have a playable card, so you cannot draw.',
+  'error.DECK_EMPTY': 'The deck is empty.',
+  'error.CANNOT_PASS': 'You cannot pass yet; draw or play first.',
+  'error.BAD_MESSAGE': 'The server did not understand that request.',
+  'error.ROOM_NOT_FOUND': 'No room with code {code}.',
+  'error.ROOM_FULL': 'That room is full.',
+  'error.ALREADY_STARTED': 'That game has already started.',
+  'error.NOT_IN_ROOM': 'Join a room first.',
+  'error.NOT_HOST': 'Only the host can start early.',
+  'error.BAD_TOKEN': 'That seat is no longer yours.',
+  'error.ILLEGAL_MOVE': 'The game has not started yet.',
+
+  // --- Header ---
+  'header.daily': 'Daily {date}',
+  'header.dailyPractice': 'Daily {date} · practice',
+  'header.assisted': 'Assisted',
+  'header.assistedTitle': 'Hints or undo were used; this game is left out of your statistics.',
+  'header.statistics': 'Statistics',
+  'header.restart': 'Restart',
+  'highlight.playable': 'Highlight: playable cards',
+  'highlight.dim': 'Highlight: dim the rest',
+  'highlight.off': 'Highlight: off',
+
+  // --- Table ---
+  'table.deck': 'Deck ({count})',
+  'table.drawPile': 'Draw pile, {count} cards',
+  'table.discard': 'Discard',
+  'table.discardPile': 'Discard pile, {card}',
+  'table.suitToPlay': 'Suit to play: {suit}',
+  'table.yourHand': 'Your hand, {count} cards',
+  'table.seatHand': "{name}'s hand, {count} cards",
+  'table.hiddenHand': 'Hidden hand',
+  'table.drawOrStack': 'Draw {count} from the deck, or stack a 2.',
+  'table.noPlayDraw': 'No playable cards! Draw from the deck.',
+  'table.noPlayPass': 'No playable cards! Pass your turn.',
+  'table.pass': 'Pass',
+  'table.hint': 'Hint',
+  'table.undo': 'Undo',
+  'table.opponentActions': 'Opponent actions',
+
+  // --- Hints ---
+  'hint.spendsWild': 'spends your {rank} while other cards fit',
+  'hint.nothingElse': 'nothing else fits',
+  'hint.opponentNearlyOut': 'an opponent is nearly out; name a suit they lack',
+  'hint.keepsWild': 'keeps your {rank}',
+  'hint.moreOfSuit': 'you hold {count} more {suit}',
+  'hint.switchesAwayFromShort': 'switches away from {suit}, which the next player just drew on',
+  'hint.switchesToShort': 'switches to {suit}, which the next player drew on',
+  'hint.staysOnShort': 'stays on {suit}, which the next player drew on',
+  'hint.drawTwo': 'makes the next player draw two',
+  'hint.skip': 'skips the next player',
+  'hint.drawFive': 'makes the next player draw five',
+  'hint.drawFour': 'makes the next player draw four',
+  'hint.safe': 'a safe match',
+
+  // --- Game Over ---
+  'over.matchWon': 'Match Won!',
+  'over.matchLost': 'Match Lost!',
+  'over.victory': 'Victory!',
+  'over.defeat': 'Defeat!',
+  'over.reachedTarget': '{name} reached {target} points.',
+  'over.youCleared': 'You cleared your hand like a pro.',
+  'over.seatCleared': '{name} cleared their hand like a pro.',
+  'over.tooFast': '{name} was too fast this time.',
+  'over.submitting': 'Submitting your result...',
+  'over.dailyRecorded': 'Challenge recorded: {turns} turns, {draws} draws.',
+  'over.practiceRun': 'Practice run; it does not count for the leaderboard.',
+  'over.leaderboard': 'Leaderboard',
+  'over.handOver': 'Hand Over',
+  'over.matchOver': 'Match Over',
+  'over.newMatch': 'New Match',
+  'over.nextHand': 'Next Hand',
+  'over.exportReplay': 'Export replay',
+  'over.watchReplay': 'Watch replay',
+
+  // --- Start Screen ---
+  'start.motto1': 'The Five Elements turn · Move with the seasons',
+  'start.motto2': '"Eight" turns heaven and earth, and settles the feng shui of the game.',
+  'start.motto3': 'Climb Mount Tai and the world grows small; clear your hand and the game is won.',
+  'start.players': 'Players',
+  'start.humanSeat': 'Human (pass & play)',
+  'start.humanSeatTitle': 'Another player at this device',
+  'start.continue': 'Continue',
+  'start.begin': 'Begin',
+  'start.saveUnusable': 'The saved game cannot be continued. Start a new game to continue.',
+  'start.daily': 'Daily',
+  'start.online': 'Online',
+  'start.openReplay': 'Open replay',
+  'start.watch': 'Watch AI',
+
+  // --- Match Settings ---
+  'match.target': 'Target',
+  'match.eightPoints': 'Points for an 8 or a joker',
+  'match.facePoints': 'Points for a J, Q or K',
+  'match.acePoints': 'Points for an ace',
+  'score.hand': 'Hand',
+  'score.total': 'Total / {target}',
+  'score.leftInHand': '{points} points left in hand',
+
+  // --- Rules ---
+  'rules.title': 'Rules',
+  'preset.classic': 'Classic',
+  'preset.house': 'House',
+  'preset.mao': 'Mao',
+  'rules.drawTwo': '2 = Draw two',
+  'rules.stackDrawTwo': 'Stack 2s',
+  'rules.queenSkips': 'Q = Skip',
+  'rules.aceReverses': 'A = Reverse',
+  'rules.reshuffleDiscards': 'Reshuffle discards',
+  'rules.allowEightFirst': '8 may start',
+  'rules.jack.none': 'J: Plain',
+  'rules.jack.drawFive': 'J: Draw five',
+  'rules.jack.wild': 'J: Wild (Mao)',
+  'rules.draw.unlimited': 'Draw freely',
+  'rules.draw.drawOneThenPass': 'Draw one, then pass',
+  'rules.draw.untilPlayable': 'Draw until playable',
+  'rules.decks.one': 'One deck',
+  'rules.decks.many': '{count} decks',
+  'rules.joker.none': 'No jokers',
+  'rules.joker.wild': 'Jokers: Wild',
+  'rules.joker.wildDrawFour': 'Jokers: Wild draw four',
+  'rules.moreDecks': 'With {count} players, a second deck keeps the draw pile from running dry.',
+  'ruleLabel.drawTwo': '2: Draw two',
+  'ruleLabel.drawTwoStacking': '2: Draw two (stacking)',
+  'ruleLabel.queenSkips': 'Q: Skip',
+  'ruleLabel.aceReverses': 'A: Reverse',
+  'ruleLabel.jackDrawFive': 'J: Draw five',
+  'ruleLabel.jackWild': 'J: Wild',
+  'ruleLabel.drawOneThenPass': 'Draw one, then pass',
+  'ruleLabel.untilPlayable': 'Draw until playable',
+  'ruleLabel.reshuffleDiscards': 'Reshuffle discards',
+  'ruleLabel.allowEightFirst': '8 may start',
+  'ruleLabel.decks': '{count} decks',
+  'ruleLabel.jokerWild': 'Jokers: Wild',
+  'ruleLabel.jokerDrawFour': 'Jokers: Wild draw four',
+
+  // --- Profiles and Statistics ---
+  'profile.title': 'Player',
+  'profile.guest': 'Guest (not recorded)',
+  'profile.newName': 'New profile',
+  'profile.create': 'Create profile',
+  'stats.title': 'Record · {name}',
+  'stats.onlyAssisted': 'Only assisted games so far; they are not counted.',
+  'stats.noGames': 'No finished games yet.',
+  'stats.games': 'Games',
+  'stats.winRate': 'Win rate',
+  'stats.averageTurns': 'Avg. turns',
+  'stats.currentStreak': 'Current streak',
+  'stats.bestStreak': 'Best streak',
+  'stats.eightFinishes': 'Won on an 8',
+  'stats.opponent': 'Opponent',
+  'stats.assistedNote': '{count} assisted game(s) with hints or undo are in the history but not in these numbers.',
+  'stats.export': 'Export history (CSV)',
+
+  // --- Daily Challenge ---
+  'daily.title': 'Daily Challenge',
+  'daily.rules': '{preset} rules',
+  'daily.playRanked': 'Play for the leaderboard',
+  'daily.practice': 'Practice this deal',
+  'daily.pastNote': 'Past challenges can be replayed, but do not count.',
+  'daily.pickProfile': 'Pick a profile on the start screen to play for the leaderboard.',
+  'daily.attemptUsed': "{name} has used today's attempt; practice games do not count.",
+  'daily.oneAttempt': 'One ranked attempt per profile per day. Leaving the game still uses it up.',
+  'daily.empty': 'Nobody has finished this challenge yet.',
+  'daily.player': 'Player',
+  'daily.result': 'Result',
+  'daily.turns': 'Turns',
+  'daily.draws': 'Draws',
+  'daily.won': 'Won',
+  'daily.lost': 'Lost',
+
+  // --- History and Replays ---
+  'history.title': 'History ({count})',
+  'history.export': 'Export',
+  'log.deal': 'Dealt {count} hands; {card} starts the pile.',
+  'log.play': '{name} played {card}.',
+  'log.draw': '{name} drew {cards}.',
+  'log.aCard': 'a card',
+  'log.someCards': '{count} cards',
+  'log.nothing': 'nothing',
+  'log.chooseSuit': '{name} chose {suit}.',
+  'log.pass': '{name} passed.',
+  'log.reshuffle': '{count} discards were shuffled into the deck.',
+  'replay.title': 'Replay',
+  'replay.seed': 'seed {seed}',
+  'replay.winner': 'Winner',
+  'replay.restart': 'Restart',
+  'replay.stepBack': 'Step back',
+  'replay.play': 'Play',
+  'replay.pause': 'Pause',
+  'replay.stepForward': 'Step forward',
+
+  // --- Coach ---
+  'coach.title': 'Coach',
+  'coach.via': 'via {source}',
+  'coach.ask': 'Ask for a suggested move.',
+  'coach.yourTurnOnly': 'The coach helps on your turn.',
+  'coach.suggest': 'Suggest a move',
+  'coach.reviewing': 'Reviewing...',
+  'coach.review': 'Coach review',
+  'coach.modelText': '{text}',
+  'coach.move.play': 'Play the {card}.',
+  'coach.move.playWild': 'Play the {card} and name {suit}.',
+  'coach.move.draw': 'Draw a card.',
+  'coach.move.drawPenalty': 'Draw {count}.',
+  'coach.move.pass': 'Pass.',
+  'coach.move.chooseSuit': 'Name {suit}.',
+  'coach.why.chooseSuit': '{suit} is the suit you hold most of, so you are most likely to follow it next turn.',
+  'coach.why.wildOnly': 'Nothing else fits, so the wild card has to go now.',
+  'coach.why.wildSuit': 'Name {suit}, the suit you hold most of once it has left your hand.',
+  'coach.why.follows': 'It follows {suit}.',
+  'coach.why.matchesRank': 'It matches the {rank} on the pile and switches the suit to {suit}.',
+  'coach.why.keepWild': 'Keep your wild card for when nothing else fits.',
+  'coach.why.longestSuit': '{suit} is your longest suit, so you can likely follow it again.',
+  'coach.why.takePenalty': 'You have no 2 to stack, so take the {count} cards.',
+  'coach.why.noMatch': 'Nothing in your hand matches the pile.',
+  'coach.why.drewAlready': 'You already drew and still cannot play.',
+  'coach.why.deckEmpty': 'The deck is empty and nothing matches.',
+  'coach.why.nearlyOut': 'An opponent is close to going out; every card you shed counts.',
+  'coach.recap.summary': '{count} moves in total. Key turns:',
+  'coach.recap.line': '- {entry}',
+  'coach.recap.none': '- None; the game was decided by ordinary suit and rank matches.',
+  'coach.recap.wilds': '{name} played {count} wild card(s).',
+
+  // --- Dialogs ---
+  'suitSelector.title': 'Wild 8!',
+  'suitSelector.prompt': 'Choose the next suit to play, or press 1–4',
+  'handoff.title': 'Pass the device to {name}',
+  'handoff.lookAway': 'Everyone else, look away.',
+  'handoff.reveal': "I'm {name}, show my hand",
+
+  // --- Online ---
+  'online.title': 'Online',
+  'online.leave': 'Leave room',
+  'online.roomCode': 'Room code',
+  'online.waiting': 'Waiting...',
+  'online.host': 'host',
+  'online.fillIn': 'Empty seats are filled with AI in {seconds}s.',
+  'online.startNow': 'Start now',
+  'online.youWonHand': 'You won the hand!',
+  'online.seatWonHand': '{name} won the hand.',
+  'online.chooseSuit': 'Choose a suit.',
+  'online.yourTurn': 'Your turn.',
+  'online.tagAi': 'ai',
+  'online.tagAway': 'away',
+  'online.yourName': 'Your name',
+  'online.defaultName': 'Player',
+  'online.create': 'Create {count}-player room',
+  'online.codePlaceholder': 'CODE',
+  'online.join': 'Join',
+  'online.rejoin': 'Rejoin room {code}',
+  'online.reconnecting': 'Connection lost. Reconnecting...',
+  'online.note': 'Rooms use the seat count and rules chosen on the start screen.',
+
+  // --- Saves & Replays ---
+  'save.corrupted': 'The saved game is corrupted.',
+  'save.corruptedBecause': 'The saved game is corrupted: {problem}.',
+  'save.oldVersion': 'The saved game is from an older version ({version}) and cannot be continued.',
+  'save.unknownVersion': 'unknown',
+  'save.unreadable': 'The saved game could not be loaded.',
+  'save.problem.game': 'the game is missing',
+  'save.problem.hands': 'the hands are missing',
+  'save.problem.pile': 'a card pile is damaged',
+  'save.problem.discard': 'the discard pile is empty',
+  'save.problem.rules': 'the rules are incomplete or invalid',
+  'save.problem.phase': 'the game phase is unknown',
+  'save.problem.current': 'the current seat is invalid',
+  'save.problem.winner': 'the winner is invalid',
+  'save.problem.suit': 'the active suit is invalid',
+  'save.problem.direction': 'the turn direction is invalid',
+  'save.problem.shortSuits': 'the seat notes are damaged',
+  'save.problem.field': '{field} is missing',
+  'save.problem.cards': 'cards are missing or duplicated',
+  'save.problem.seats': 'the seats are damaged or do not match the hands',
+  'save.problem.match': 'the match score is damaged',
+  'save.problem.daily': 'the daily challenge is damaged',
+  'save.problem.history': 'its history does not match the table',
+  'replay.notJson': 'The file is not valid JSON.',
+  'replay.version': 'Unsupported replay version {version}; expected {expected}.',
+  'replay.incomplete': 'The replay file is missing its seed, seats or actions.',
+  'replay.seatCount': 'The replay lists {count} seats but was dealt for {dealt}.',
+  'replay.unreadable': 'The replay could not be rebuilt.',
+  'replay.illegal': 'Action {n} is illegal: {error}',
+  'replay.daily.wrong': 'That is not the {date} challenge.',
+  'replay.daily.afterEnd': 'Moves were recorded after the game ended.',
+  'replay.daily.illegal': 'Action {n} is illegal.',
+  'replay.daily.aiMismatch': 'The AI\'s moves at action {n} do not match the challenge.',
+  'replay.daily.unfinished': 'The game is not finished.',
+
+  // --- Server API ---
+  'api.UNREACHABLE': 'The game server is not reachable. Start it with `npm run server`.',
+  'api.UNKNOWN': 'The game server failed ({status}).',
+  'api.FAILED': 'Something went wrong while talking to the game server.',
+  'api.BAD_DATE': 'Dates look like 2025-01-31.',
+  'api.NO_PROFILE': 'No such profile.',
+  'api.NAME_REQUIRED': 'A profile needs a name.',
+  'api.NOT_A_FINISHED_GAME': 'That is not a finished game.',
+  'api.NOT_TODAY': 'Only today\'s challenge counts for the leaderboard.',
+  'api.ALREADY_PLAYED': '{name} has already played today\'s challenge.',
+  'api.NOT_STARTED': 'That challenge was never started.',
+  'api.ALREADY_SUBMITTED': 'That attempt has already been submitted.',
+  'api.NOT_A_GAME_LOG': 'That is not a game log.',
+  'api.NOT_A_SEAT_VIEW': 'That is not a seat view.',
+  'api.SEATS_MISMATCH': 'The seats do not match the game.',
+  'api.COACH_UNAVAILABLE': 'The coach is unavailable right now.',
+
+  // --- Updates ---
+  'update.ready': 'A new version is ready. Your game is saved and carries on after reloading.',
+  'update.reload': 'Reload',
+  'update.later': 'Later',
+  'update.offlineReady': 'Installed: you can now play against the AI offline.',
+
+  // --- Settings ---
+  'settings.title': 'Settings',
+  'settings.theme': 'Theme',
+  'settings.packErrors': 'Theme packs that could not be loaded: {count}. See the browser console for details.',
+  'theme.fengShui': 'Feng Shui',
+  'theme.classic': 'Classic four-colour',
+  'theme.highContrast': 'High contrast',
+
+  // --- Watch Mode ---
+  'watch.title': 'Watching',
+  'watch.play': 'Play',
+  'watch.pause': 'Pause',
+  'watch.step': 'Step one turn',
+  'watch.speed': 'Speed',
+  'watch.faceUp': 'Show all hands',
+  'watch.bots': 'Bots',
+  'watch.waiting': 'Each AI move and its reasons appear here.',
+  'watch.noReasons': 'this bot does not explain itself',
+  'watch.move.play': 'plays the {card}',
+  'watch.move.playWild': 'plays the {card} and names {suit}',
+  'watch.move.chooseSuit': 'names {suit}',
+  'watch.move.draw': 'draws',
+  'watch.move.pass': 'passes',
+  'why.drawPenalty': 'must draw {count} and has no 2 to stack',
+  'why.drawNoPlay': 'nothing in hand matches',
+  'why.passAfterDraw': 'already drew and still cannot play',
+  'why.passDeckEmpty': 'the deck is empty and nothing matches',
+  'why.randomCard': 'picked at random from {count} playable cards',
+  'why.randomSuit': 'named a suit at random',
+  'why.firstPlain': 'the first matching card that is not wild',
+  'why.savesWild': 'keeps its wild card for later',
+  'why.onlyWild': 'only a wild card fits',
+  'why.longestSuit': '{suit} is its longest suit',
+  'why.onlyCandidate': 'the only card worth playing',
+  'why.rollouts': 'played out {samples} likely deals for each of {count} cards; this one won most',
+  'why.emergency': 'an opponent is nearly out, so wild cards were in the running',
+  'why.suitHeld': 'holds {count} {suit}',
+  'why.suitShort': 'opponents seen drawing on it: {count}',
+  'why.suitUnseen': 'cards of the suit not yet seen: {count}',
+};
@@ -0,0 +1,95 @@
+import type { SeatNames } from '../game/seats';
+import type { Action, CardData, EngineErrorCode, GameState, Suit } from '../game/types';
+import { en } from './en';
+import { zhCN } from './zh-CN';
+
+export type MessageKey = keyof typeof en;
+/** A full translation: every key of the English catalog, nothing else. */
+export type Catalog = Record<MessageKey, string>;
+
+export type Language = 'en' | 'zh-CN';
+
+export const LANGUAGES: { id: Language; label: string; catalog: Catalog }[] = [
+  { id: 'zh-CN', label: '中文', catalog: zhCN },
+  { id: 'en', label: 'English', catalog: en },
+];
+
+export const isLanguage = (value: unknown): value is Language => LANGUAGES.some(l => l.id === value);
+
+/** The browser's preference when it is one we have, otherwise English. */
+export const preferredLanguage = (): Language =>
+  typeof navigator !== 'undefined' && navigator.language?.toLowerCase().startsWith('zh') ? 'zh-CN' : 'en';
+
+// --- Messages ---
+
+/** A message that is translated when shown, so it follows later language changes. */
+export interface Message {
+  key: MessageKey;
+  params?: Params;
+}
+
+/** Values fill `{placeholders}`; nested messages are translated in the same language, lists joined with `list.separator`. */
+export type Params = Record<string, string | number | Message | Message[]>;
+
+/** One message, or sentences that are shown together. */
+export type Text = Message | Message[];
+
+export const msg = (key: MessageKey, params?: Params): Message => ({ key, params });
+
+export const isMessageKey = (key: string): key is MessageKey => key in en;
+
+export type Translate = (key: MessageKey, params?: Params) => string;
+
+export const translator = (language: Language): Translate => {
+  const catalog = LANGUAGES.find(l => l.id === language)?.catalog ?? en;
+  const t: Translate = (key, params = {}) =>
+    catalog[key].replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+      const value = params[name];
+      if (value === undefined) return placeholder;
+      if (Array.isArray(value)) return value.map(m => t(m.key, m.params)).join(t('list.separator'));
+      return typeof value === 'object' ? t(value.key, value.params) : String(value);
+    });
+  return t;
+};
+
+/** For logs, prompts and tools outside the UI. */
+export const english: Translate = translator('en');
+
+export const formatText = (t: Translate, text: Text): string =>
+  Array.isArray(text)
+    ? text.map(m => t(m.key, m.params)).join(t('text.separator'))
+    : t(text.key, text.params);
+
+// --- Game Vocabulary ---
+
+export const suitMsg = (suit: Suit): Message => msg(`suit.${suit}`);
+
+/** A joker is named by its colour, every other card by rank and suit. */
+export const cardMsg = (card: CardData): Message =>
+  card.rank === 'Joker'
+    ? msg(card.suit === 'hearts' || card.suit === 'diamonds' ? 'card.redJoker' : 'card.blackJoker')
+    : msg('card.name', { rank: msg(`rank.${card.rank}`), suit: suitMsg(card.suit) });
+
+/** Why the engine refused `action` in `state`; the card named is the one `action` tried to play. */
+export const engineErrorMsg = (state: GameState, action: Action, code: EngineErrorCode): Message => {
+  const card = action.type === 'play' ? state.hands[action.seat]?.find(c => c.id === action.cardId) : undefined;
+  return msg(`error.${code}`, { count: state.pendingDraw, card: card ? cardMsg(card) : '' });
+};
+
+/** Registered bots translate by name; others keep the label they registered with. */
+export const botLabel = (t: Translate, bot: { name: string; label: string }): string => {
+  const key = `bot.${bot.name}`;
+  return isMessageKey(key) ? t(key) : bot.label;
+};
+
+export const botDescription = (t: Translate, bot: { name: string; description?: string }): string | undefined => {
+  const key = `bot.${bot.name}.description`;
+  return isMessageKey(key) ? t(key) : bot.description;
+};
+
+/** Names for new seats; they are stored with the game and stay as dealt. */
+export const seatNames = (t: Translate): SeatNames => ({
+  you: t('seat.you'),
+  player: n => t('seat.player', { n }),
+  ai: n => (n === null ? t('seat.ai') : t('seat.aiNumbered', { n })),
+});
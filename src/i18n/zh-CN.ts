@@ -0,0 +1,451 @@
+import type { Catalog } from './index';
+
+/** Simplified Chinese. Typed as a full `Catalog`, so a missing or misspelt key fails the type-check. */
+export const zhCN: Catalog = {
+  // --- App ---
+  'app.title': '泰山风水 · 疯狂八点',
+  'app.footer': '基于 React 与 Tailwind 构建 • Tina 的疯狂八点 v1.0',
+  'language.label': '语言',
+  'common.close': '关闭',
+  'text.separator': '',
+  'list.separator': '、',
+  'reasons.separator': '；',
+
+  // --- Cards ---
+  'suit.hearts': '红桃',
+  'suit.diamonds': '方块',
+  'suit.clubs': '梅花',
+  'suit.spades': '黑桃',
+  'rank.A': 'A',
+  'rank.2': '2',
+  'rank.3': '3',
+  'rank.4': '4',
+  'rank.5': '5',
+  'rank.6': '6',
+  'rank.7': '7',
+  'rank.8': '8',
+  'rank.9': '9',
+  'rank.10': '10',
+  'rank.J': 'J',
+  'rank.Q': 'Q',
+  'rank.K': 'K',
+  'rank.Joker': '王',
+  'card.name': '{suit}{rank}',
+  'card.playable': '{card}，可出',
+  'card.faceDown': '背面朝上的牌',
+  'card.redJoker': '大王',
+  'card.blackJoker': '小王',
+
+  // --- Seats and Bots ---
+  'seat.you': '你',
+  'seat.player': '玩家 {n}',
+  'seat.ai': '电脑',
+  'seat.aiNumbered': '电脑 {n}',
+  'seat.numbered': '座位 {n}',
+  'bot.easy': '简单',
+  'bot.easy.description': '随机打出一张合规的牌。',
+  'bot.normal': '普通',
+  'bot.normal.description': '保留万能牌，并指定自己最长的花色。',
+  'bot.hard': '困难',
+  'bot.hard.description': '记住见过的牌，用蒙特卡洛模拟推演可能的牌局。',
+
+  // --- Status Line ---
+  'status.welcome': '欢迎来到 Tina 的疯狂八点！',
+  'status.firstTurn': '轮到你了！请出同花色或同点数的牌。',
+  'status.startsFirst': '{name} 先出。请出同花色或同点数的牌。',
+  'status.welcomeBack': '欢迎回来！',
+  'status.welcomeBackTurn': '欢迎回来！轮到你了。',
+  'status.dailyRanked': '今日挑战！轮到你了。',
+  'status.dailyPractice': '正在练习 {date} 的挑战。轮到你了。',
+  'status.newHand': '新的一局！',
+  'status.yourTurn': '轮到你了！',
+  'status.seatTurn': '轮到 {name}。',
+  'status.thinking': '{name} 正在思考……',
+  'status.chooseSuit': '请选择新的花色！',
+  'status.youDrewPenalty': '你摸了 {count} 张牌。',
+  'status.youDrew': '你摸了一张牌。',
+  'status.reshuffledYouDrew': '弃牌已重洗。你摸了一张牌。',
+  'status.deckEmptySkip': '牌堆已空！跳过本轮。',
+  'status.youPassed': '你选择了过。',
+  'status.youChose': '你指定了{suit}。',
+  'status.undone': '已撤回你的上一轮。轮到你了！',
+  'status.youWon': '恭喜！你赢了！',
+  'status.seatWon': '{name} 获胜！',
+  'status.aiWon': '{name} 获胜！下次好运。',
+  'status.importFailed': '该文件不是可读取的回放。',
+  'effect.youMustDraw': '你需要摸 {count} 张牌，或叠出一张 2。',
+  'effect.mustDraw': '{name} 需要摸 {count} 张牌，或叠出一张 2。',
+  'effect.youSkipped': '你被跳过一轮。',
+  'effect.skipped': '{name} 被跳过一轮。',
+  'effect.reversed': '出牌方向反转。',
+  'ai.playedEight': '{name} 打出一张 8，指定了{suit}！',
+  'ai.playedWildJack': '{name} 打出一张万能 J，指定了{suit}！',
+  'ai.playedJoker': '{name} 打出一张王牌，指定了{suit}！',
+  'ai.playedAction': '{name} 打出了{card}！',
+  'ai.drewAndPlayed': '{name} 摸了一张牌并打出。',
+  'ai.drewOne': '{name} 摸了一张牌。',
+  'ai.drewMany': '{name} 摸了 {count} 张牌。',
+  'ai.botReplaced': '{name} 的{bot}机器人尝试了非法出牌，本回合由内置机器人代打。',
+
+  // --- Rule Errors ---
+  'error.GAME_OVER': '本局已经结束。',
+  'error.NOT_YOUR_TURN': '还没轮到你。',
+  'error.SUIT_CHOICE_PENDING': '请先为万能牌指定花色。',
+  'error.NO_SUIT_CHOICE_PENDING': '没有等待指定花色的万能牌。',
+  'error.INVALID_SUIT': '这不是有效的花色。',
+  'error.CARD_NOT_IN_HAND': '这张牌不在你的手中。',
+  'error.CARD_NOT_PLAYABLE': '{card}与弃牌堆不匹配。',
+  'error.PENALTY_PENDING': '请摸 {count} 张牌，或叠出一张 2。',
+  'error.ALREADY_DREW': '每轮只能摸一张牌。',
+  'error.MUST_PLAY': '你有可出的牌，不能摸牌。',
+  'error.DECK_EMPTY': '牌堆已空。',
+  'error.BAD_MESSAGE': '服务器无法理解该请求。',
+  'error.ROOM_NOT_FOUND': '没有房间号为 {code} 的房间。',
+  'error.ROOM_FULL': '该房间已满。',
+  'error.ALREADY_STARTED': '该对局已经开始。',
+  'error.NOT_IN_ROOM': '请先加入房间。',
+  'error.NOT_HOST': '只有房主可以提前开始。',
+  'error.BAD_TOKEN': '该座位已不属于你。',
+  'error.ILLEGAL_MOVE': '对局尚未开始。',
+  'error.CANNOT_PASS': '现在还不能过，请先摸牌或出牌。',
+
+  // --- Header ---
+  'header.daily': '每日 {date}',
+  'header.dailyPractice': '每日 {date} · 练习',
+  'header.assisted': '辅助',
+  'header.assistedTitle': '本局使用了提示或撤回，不计入你的统计。',
+  'header.statistics': '统计',
+  'header.restart': '重新开始',
+  'highlight.playable': '高亮：可出的牌',
+  'highlight.dim': '高亮：其余变暗',
+  'highlight.off': '高亮：关闭',
+
+  // --- Table ---
+  'table.deck': '牌堆（{count}）',
+  'table.drawPile': '摸牌堆，{count} 张',
+  'table.discard': '弃牌',
+  'table.discardPile': '弃牌堆，{card}',
+  'table.suitToPlay': '当前花色：{suit}',
+  'table.yourHand': '你的手牌，{count} 张',
+  'table.seatHand': '{name}的手牌，{count} 张',
+  'table.hiddenHand': '隐藏的手牌',
+  'table.drawOrStack': '从牌堆摸 {count} 张，或叠出一张 2。',
+  'table.noPlayDraw': '没有可出的牌！请从牌堆摸牌。',
+  'table.noPlayPass': '没有可出的牌！请选择过。',
+  'table.pass': '过',
+  'table.hint': '提示',
+  'table.undo': '撤回',
+  'table.opponentActions': '对手动作',
+
+  // --- Hints ---
+  'hint.spendsWild': '还有别的牌可出，却用掉了你的 {rank}',
+  'hint.nothingElse': '没有别的牌可出',
+  'hint.opponentNearlyOut': '有对手快出完了；指定一个他们缺的花色',
+  'hint.keepsWild': '保留你的 {rank}',
+  'hint.moreOfSuit': '你还有 {count} 张{suit}',
+  'hint.switchesAwayFromShort': '换掉了{suit}，而下家刚因这个花色摸过牌',
+  'hint.switchesToShort': '换成{suit}，下家曾因这个花色摸牌',
+  'hint.staysOnShort': '保持{suit}，下家曾因这个花色摸牌',
+  'hint.drawTwo': '让下家摸两张',
+  'hint.skip': '跳过下家',
+  'hint.drawFive': '让下家摸五张',
+  'hint.drawFour': '让下家摸四张',
+  'hint.safe': '稳妥的一手',
+
+  // --- Game Over ---
+  'over.matchWon': '赢得比赛！',
+  'over.matchLost': '输掉比赛！',
+  'over.victory': '胜利！',
+  'over.defeat': '失败！',
+  'over.reachedTarget': '{name} 达到了 {target} 分。',
+  'over.youCleared': '你漂亮地出完了手牌。',
+  'over.seatCleared': '{name} 漂亮地出完了手牌。',
+  'over.tooFast': '这次 {name} 快了一步。',
+  'over.submitting': '正在提交成绩……',
+  'over.dailyRecorded': '挑战已记录：{turns} 回合，摸牌 {draws} 次。',
+  'over.practiceRun': '练习局，不计入排行榜。',
+  'over.leaderboard': '排行榜',
+  'over.handOver': '本局结束',
+  'over.matchOver': '比赛结束',
+  'over.newMatch': '新比赛',
+  'over.nextHand': '下一局',
+  'over.exportReplay': '导出回放',
+  'over.watchReplay': '观看回放',
+
+  // --- Start Screen ---
+  'start.motto1': '五行轮转 · 顺天应时',
+  'start.motto2': '“八”为乾坤之变，可定风水之局。',
+  'start.motto3': '登泰山而小天下，清残牌而定胜负。',
+  'start.players': '人数',
+  'start.humanSeat': '真人（轮流传递）',
+  'start.humanSeatTitle': '同一设备上的另一位玩家',
+  'start.continue': '继续对局',
+  'start.begin': '开启征程',
+  'start.saveUnusable': '存档无法继续。请开始新的对局。',
+  'start.daily': '每日挑战',
+  'start.online': '联机对战',
+  'start.openReplay': '打开回放',
+  'start.watch': '观战',
+
+  // --- Match Settings ---
+  'match.target': '目标',
+  'match.eightPoints': '8 与王牌的分值',
+  'match.facePoints': 'J、Q、K 的分值',
+  'match.acePoints': 'A 的分值',
+  'score.hand': '局',
+  'score.total': '总分 / {target}',
+  'score.leftInHand': '手中剩余 {points} 分',
+
+  // --- Rules ---
+  'rules.title': '规则',
+  'preset.classic': '经典',
+  'preset.house': '家规',
+  'preset.mao': 'Mao',
+  'rules.drawTwo': '2 = 下家摸两张',
+  'rules.stackDrawTwo': '可叠加 2',
+  'rules.queenSkips': 'Q = 跳过',
+  'rules.aceReverses': 'A = 反转',
+  'rules.reshuffleDiscards': '重洗弃牌',
+  'rules.allowEightFirst': '8 可作首张',
+  'rules.jack.none': 'J：普通',
+  'rules.jack.drawFive': 'J：下家摸五张',
+  'rules.jack.wild': 'J：万能（Mao）',
+  'rules.draw.unlimited': '自由摸牌',
+  'rules.draw.drawOneThenPass': '摸一张后可过',
+  'rules.draw.untilPlayable': '摸到能出为止',
+  'rules.decks.one': '一副牌',
+  'rules.decks.many': '{count} 副牌',
+  'rules.joker.none': '不用王牌',
+  'rules.joker.wild': '王牌：万能',
+  'rules.joker.wildDrawFour': '王牌：万能并罚摸四张',
+  'rules.moreDecks': '{count} 人对局时，加一副牌可免摸牌堆见底。',
+  'ruleLabel.drawTwo': '2：摸两张',
+  'ruleLabel.drawTwoStacking': '2：摸两张（可叠加）',
+  'ruleLabel.queenSkips': 'Q：跳过',
+  'ruleLabel.aceReverses': 'A：反转',
+  'ruleLabel.jackDrawFive': 'J：摸五张',
+  'ruleLabel.jackWild': 'J：万能',
+  'ruleLabel.drawOneThenPass': '摸一张后可过',
+  'ruleLabel.untilPlayable': '摸到能出为止',
+  'ruleLabel.reshuffleDiscards': '重洗弃牌',
+  'ruleLabel.allowEightFirst': '8 可作首张',
+  'ruleLabel.decks': '{count} 副牌',
+  'ruleLabel.jokerWild': '王牌：万能',
+  'ruleLabel.jokerDrawFour': '王牌：万能罚四',
+
+  // --- Profiles and Statistics ---
+  'profile.title': '玩家',
+  'profile.guest': '访客（不记录）',
+  'profile.newName': '新档案',
+  'profile.create': '创建档案',
+  'stats.title': '战绩 · {name}',
+  'stats.onlyAssisted': '目前只有辅助对局，它们不计入统计。',
+  'stats.noGames': '还没有完成的对局。',
+  'stats.games': '局数',
+  'stats.winRate': '胜率',
+  'stats.averageTurns': '平均回合',
+  'stats.currentStreak': '当前连胜',
+  'stats.bestStreak': '最长连胜',
+  'stats.eightFinishes': '以 8 收尾',
+  'stats.opponent': '对手',
+  'stats.assistedNote': '有 {count} 局使用了提示或撤回，保留在历史中，但不计入这些数字。',
+  'stats.export': '导出历史（CSV）',
+
+  // --- Daily Challenge ---
+  'daily.title': '每日挑战',
+  'daily.rules': '{preset}规则',
+  'daily.playRanked': '参加排行',
+  'daily.practice': '练习这一局',
+  'daily.pastNote': '往日挑战可以重玩，但不计成绩。',
+  'daily.pickProfile': '在开始界面选择档案后即可参加排行。',
+  'daily.attemptUsed': '{name} 已用掉今天的机会；练习局不计成绩。',
+  'daily.oneAttempt': '每个档案每天只有一次排行机会。中途离开也会用掉。',
+  'daily.empty': '还没有人完成这项挑战。',
+  'daily.player': '玩家',
+  'daily.result': '结果',
+  'daily.turns': '回合',
+  'daily.draws': '摸牌',
+  'daily.won': '胜',
+  'daily.lost': '负',
+
+  // --- History and Replays ---
+  'history.title': '记录（{count}）',
+  'history.export': '导出',
+  'log.deal': '发了 {count} 手牌；{card} 为首张弃牌。',
+  'log.play': '{name} 打出{card}。',
+  'log.draw': '{name} 摸了{cards}。',
+  'log.aCard': '一张牌',
+  'log.someCards': ' {count} 张牌',
+  'log.nothing': '空',
+  'log.chooseSuit': '{name} 指定了{suit}。',
+  'log.pass': '{name} 选择了过。',
+  'log.reshuffle': '{count} 张弃牌被洗回牌堆。',
+  'replay.title': '对局回放',
+  'replay.seed': '种子 {seed}',
+  'replay.winner': '胜者',
+  'replay.restart': '从头开始',
+  'replay.stepBack': '后退一步',
+  'replay.play': '播放',
+  'replay.pause': '暂停',
+  'replay.stepForward': '前进一步',
+
+  // --- Coach ---
+  'coach.title': '教练',
+  'coach.via': '来自 {source}',
+  'coach.ask': '可以请教练建议一步。',
+  'coach.yourTurnOnly': '轮到你时教练才能帮忙。',
+  'coach.suggest': '建议一步',
+  'coach.reviewing': '复盘中……',
+  'coach.review': '教练复盘',
+  'coach.modelText': '{text}',
+  'coach.move.play': '出{card}。',
+  'coach.move.playWild': '出{card}，并指定{suit}。',
+  'coach.move.draw': '摸一张牌。',
+  'coach.move.drawPenalty': '摸 {count} 张牌。',
+  'coach.move.pass': '过牌。',
+  'coach.move.chooseSuit': '指定{suit}。',
+  'coach.why.chooseSuit': '{suit}是你手里最多的花色，下一轮最有可能跟上。',
+  'coach.why.wildOnly': '别的牌都出不了，只能现在打出万能牌。',
+  'coach.why.wildSuit': '指定{suit}，万能牌出手后这是你手里最多的花色。',
+  'coach.why.follows': '它跟上了{suit}。',
+  'coach.why.matchesRank': '它与牌堆上的 {rank} 点数相同，并把花色换成{suit}。',
+  'coach.why.keepWild': '把万能牌留到别的牌都出不了的时候。',
+  'coach.why.longestSuit': '{suit}是你最长的花色，之后很可能还能跟上。',
+  'coach.why.takePenalty': '你没有 2 可以叠加，只能摸这 {count} 张牌。',
+  'coach.why.noMatch': '你手里没有能接上牌堆的牌。',
+  'coach.why.drewAlready': '你已经摸过牌，仍然出不了。',
+  'coach.why.deckEmpty': '牌堆已空，也没有能出的牌。',
+  'coach.why.nearlyOut': '有对手快出完了；每少一张牌都很重要。',
+  'coach.recap.summary': '共 {count} 步。关键回合：',
+  'coach.recap.line': '- {entry}',
+  'coach.recap.none': '- 无；这局靠普通的花色和点数匹配决出胜负。',
+  'coach.recap.wilds': '{name} 打出了 {count} 张万能牌。',
+
+  // --- Dialogs ---
+  'suitSelector.title': '万能 8！',
+  'suitSelector.prompt': '选择下一个花色，或按 1–4',
+  'handoff.title': '请把设备交给 {name}',
+  'handoff.lookAway': '其他人请回避。',
+  'handoff.reveal': '我是 {name}，显示手牌',
+
+  // --- Online ---
+  'online.title': '联机对战',
+  'online.leave': '离开房间',
+  'online.roomCode': '房间号',
+  'online.waiting': '等待中……',
+  'online.host': '房主',
+  'online.fillIn': '{seconds} 秒后空位将由电脑补上。',
+  'online.startNow': '立即开始',
+  'online.youWonHand': '你赢了这一局！',
+  'online.seatWonHand': '{name} 赢了这一局。',
+  'online.chooseSuit': '请选择花色。',
+  'online.yourTurn': '轮到你了。',
+  'online.tagAi': '电脑',
+  'online.tagAway': '离开',
+  'online.yourName': '你的名字',
+  'online.defaultName': '玩家',
+  'online.create': '创建 {count} 人房间',
+  'online.codePlaceholder': '房间号',
+  'online.join': '加入',
+  'online.rejoin': '重新加入房间 {code}',
+  'online.reconnecting': '连接中断，正在重连……',
+  'online.note': '房间使用开始界面所选的人数和规则。',
+
+  // --- Saves & Replays ---
+  'save.corrupted': '存档已损坏。',
+  'save.corruptedBecause': '存档已损坏：{problem}。',
+  'save.oldVersion': '存档来自旧版本（{version}），无法继续。',
+  'save.unknownVersion': '未知',
+  'save.unreadable': '无法读取存档。',
+  'save.problem.game': '缺少对局',
+  'save.problem.hands': '缺少手牌',
+  'save.problem.pile': '某一牌堆已损坏',
+  'save.problem.discard': '弃牌堆为空',
+  'save.problem.rules': '规则不完整或无效',
+  'save.problem.phase': '对局阶段未知',
+  'save.problem.current': '当前座位无效',
+  'save.problem.winner': '胜者无效',
+  'save.problem.suit': '当前花色无效',
+  'save.problem.direction': '出牌方向无效',
+  'save.problem.shortSuits': '座位记录已损坏',
+  'save.problem.field': '缺少 {field}',
+  'save.problem.cards': '有牌缺失或重复',
+  'save.problem.seats': '座位已损坏或与手牌不符',
+  'save.problem.match': '比赛比分已损坏',
+  'save.problem.daily': '每日挑战已损坏',
+  'save.problem.history': '对局记录与牌桌不符',
+  'replay.notJson': '该文件不是有效的 JSON。',
+  'replay.version': '不支持的回放版本 {version}；应为 {expected}。',
+  'replay.incomplete': '回放文件缺少种子、座位或操作。',
+  'replay.seatCount': '回放列出了 {count} 个座位，但发牌时为 {dealt} 个。',
+  'replay.unreadable': '无法重建该回放。',
+  'replay.illegal': '第 {n} 步不合规则：{error}',
+  'replay.daily.wrong': '这不是 {date} 的挑战。',
+  'replay.daily.afterEnd': '对局结束后仍记录了操作。',
+  'replay.daily.illegal': '第 {n} 步不合规则。',
+  'replay.daily.aiMismatch': '第 {n} 步时 AI 的出牌与挑战不符。',
+  'replay.daily.unfinished': '对局尚未结束。',
+
+  // --- Server API ---
+  'api.UNREACHABLE': '无法连接游戏服务器。请用 `npm run server` 启动它。',
+  'api.UNKNOWN': '游戏服务器出错（{status}）。',
+  'api.FAILED': '与游戏服务器通信时出错。',
+  'api.BAD_DATE': '日期格式应为 2025-01-31。',
+  'api.NO_PROFILE': '没有这个档案。',
+  'api.NAME_REQUIRED': '档案需要一个名字。',
+  'api.NOT_A_FINISHED_GAME': '这不是一局已结束的对局。',
+  'api.NOT_TODAY': '只有今天的挑战计入排行榜。',
+  'api.ALREADY_PLAYED': '{name} 今天已经玩过挑战了。',
+  'api.NOT_STARTED': '这次挑战从未开始。',
+  'api.ALREADY_SUBMITTED': '这次挑战已经提交过了。',
+  'api.NOT_A_GAME_LOG': '这不是对局记录。',
+  'api.NOT_A_SEAT_VIEW': '这不是座位视图。',
+  'api.SEATS_MISMATCH': '座位与对局不符。',
+  'api.COACH_UNAVAILABLE': '教练暂时不可用。',
+
+  // --- Updates ---
+  'update.ready': '新版本已就绪。对局已保存，刷新后可继续。',
+  'update.reload': '刷新',
+  'update.later': '稍后',
+  'update.offlineReady': '已安装：现在可以离线与电脑对战。',
+
+  // --- Settings ---
+  'settings.title': '设置',
+  'settings.theme': '主题',
+  'settings.packErrors': '有 {count} 个主题包无法加载，详情见浏览器控制台。',
+  'theme.fengShui': '风水',
+  'theme.classic': '经典四色',
+  'theme.highContrast': '高对比度',
+
+  // --- Watch Mode ---
+  'watch.title': '观战',
+  'watch.play': '播放',
+  'watch.pause': '暂停',
+  'watch.step': '前进一回合',
+  'watch.speed': '速度',
+  'watch.faceUp': '亮出所有手牌',
+  'watch.bots': '电脑策略',
+  'watch.waiting': '每一步电脑出牌及其理由会显示在这里。',
+  'watch.noReasons': '该策略未给出理由',
+  'watch.move.play': '打出{card}',
+  'watch.move.playWild': '打出{card}，指定{suit}',
+  'watch.move.chooseSuit': '指定{suit}',
+  'watch.move.draw': '摸牌',
+  'watch.move.pass': '过牌',
+  'why.drawPenalty': '须摸 {count} 张，且没有 2 可以叠加',
+  'why.drawNoPlay': '手中没有能出的牌',
+  'why.passAfterDraw': '已经摸过牌，仍然无牌可出',
+  'why.passDeckEmpty': '牌堆已空，且没有能出的牌',
+  'why.randomCard': '从 {count} 张可出的牌中随机挑选',
+  'why.randomSuit': '随机指定花色',
+  'why.firstPlain': '第一张能出的非万能牌',
+  'why.savesWild': '把万能牌留到以后',
+  'why.onlyWild': '只有万能牌能出',
+  'why.longestSuit': '{suit}是它最多的花色',
+  'why.onlyCandidate': '唯一值得出的牌',
+  'why.rollouts': '为 {count} 张候选牌各推演 {samples} 种可能的牌局，这张胜率最高',
+  'why.emergency': '有对手快出完了，所以也考虑了万能牌',
+  'why.suitHeld': '手中有 {count} 张{suit}',
+  'why.suitShort': '被看到缺这门花色的对手：{count}',
+  'why.suitUnseen': '这门花色尚未见到的牌：{count}',
+};
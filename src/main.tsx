@@ -1,10 +1,23 @@
 import {StrictMode} from 'react';
 import {createRoot} from 'react-dom/client';
+import {MotionConfig} from 'motion/react';
+import '@fontsource/ma-shan-zheng';
+import '@fontsource/noto-serif-sc/400.css';
+import '@fontsource/noto-serif-sc/700.css';
 import App from './App.tsx';
+import {I18nProvider} from './i18n/I18nProvider';
+import {ThemeProvider} from './theme/ThemeProvider';
 import './index.css';
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {/* Skips movement, springs and hover lifts for players who ask their OS for less motion. */}
+    <MotionConfig reducedMotion="user">
+      <I18nProvider>
+        <ThemeProvider>
+          <App />
+        </ThemeProvider>
+      </I18nProvider>
+    </MotionConfig>
   </StrictMode>,
 );
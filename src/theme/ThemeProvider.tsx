@@ -0,0 +1,79 @@
+import { createContext, useContext, useEffect, useLayoutEffect, useMemo, useState } from 'react';
+import type { ReactNode } from 'react';
+import { themeVariables } from './index';
+import type { FontFile, Theme } from './index';
+import { loadThemePacks } from './packs';
+import type { ThemePackFailure } from './packs';
+import { BUILTIN_THEMES } from './themes';
+import { loadThemeId, storeThemeId } from '../utils/storage';
+
+interface ThemeState {
+  theme: Theme;
+  /** Built-in themes, then the packs that loaded. */
+  themes: Theme[];
+  setTheme: (id: string) => void;
+  packFailures: ThemePackFailure[];
+}
+
+const ThemeContext = createContext<ThemeState | null>(null);
+
+const registeredFonts = new Set<string>();
+
+const registerFont = ({ family, src, weight, style }: FontFile) => {
+  if (registeredFonts.has(src)) return;
+  registeredFonts.add(src);
+  const face = new FontFace(family, `url(${JSON.stringify(src)})`, { weight, style });
+  document.fonts.add(face);
+  face.load().catch(error => console.error(`Could not load the font ${src}:`, error));
+};
+
+/**
+ * Holds the chosen theme and the theme packs, and applies the theme's colours,
+ * fonts and table art to the page as CSS variables.
+ */
+export function ThemeProvider({ children }: { children: ReactNode }) {
+  const [themeId, setThemeId] = useState(loadThemeId);
+  const [packs, setPacks] = useState<Theme[]>([]);
+  const [packFailures, setPackFailures] = useState<ThemePackFailure[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadThemePacks(BUILTIN_THEMES).then(({ themes, failures }) => {
+      if (cancelled) return;
+      for (const { url, error } of failures) console.error(`Could not load the theme pack ${url}: ${error}`);
+      setPacks(themes);
+      setPackFailures(failures);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const value = useMemo((): ThemeState => {
+    const themes = [...BUILTIN_THEMES, ...packs];
+    return {
+      // A stored pack theme shows the default until the packs have loaded.
+      theme: themes.find(theme => theme.id === themeId) ?? themes[0],
+      themes,
+      setTheme: (id) => {
+        setThemeId(id);
+        storeThemeId(id);
+      },
+      packFailures,
+    };
+  }, [themeId, packs, packFailures]);
+
+  useLayoutEffect(() => {
+    value.theme.fonts.files.forEach(registerFont);
+    const style = document.documentElement.style;
+    for (const [name, variable] of Object.entries(themeVariables(value.theme))) style.setProperty(name, variable);
+  }, [value.theme]);
+
+  return <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>;
+}
+
+export const useTheme = (): ThemeState => {
+  const theme = useContext(ThemeContext);
+  if (!theme) throw new Error('useTheme must be used inside <ThemeProvider>.');
+  return theme;
+};
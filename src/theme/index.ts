@@ -0,0 +1,174 @@
+import type { Suit } from '../game/types';
+import type { Language, Translate } from '../i18n';
+import { isLanguage, isMessageKey } from '../i18n';
+
+// --- Themes ---
+
+export const ACCENT_SHADES = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900] as const;
+export type AccentShade = (typeof ACCENT_SHADES)[number];
+
+/** A font file shipped with a theme pack, registered before the theme is shown. */
+export interface FontFile {
+  family: string;
+  src: string;
+  weight?: string;
+  style?: string;
+}
+
+/** Everything that changes the look of the table. Colours are CSS colours; images are URLs. */
+export interface Theme {
+  id: string;
+  /** Settings-menu name; the built-in themes translate by id instead. */
+  label: string;
+  /** Pack names in other languages, falling back to `label`. */
+  labels?: Partial<Record<Language, string>>;
+  /** Buttons, highlights and borders, from light (50) to dark (900). */
+  accent: Record<AccentShade, string>;
+  fonts: {
+    /** CSS font-family lists for running text and for headings and card backs. */
+    body: string;
+    display: string;
+    files: FontFile[];
+  };
+  table: {
+    color: string;
+    /** Behind the table and the start screen, darkened by `shade`. */
+    image: string | null;
+    shade: string;
+    /** Tiled faintly over the table. */
+    texture: string | null;
+  };
+  face: {
+    color: string;
+    border: string;
+    texture: string | null;
+    /** Rank and pip colour of each suit. */
+    suits: Record<Suit, string>;
+  };
+  back: {
+    color: string;
+    image: string | null;
+    /** Printed on the back in the display font, e.g. "泰山" over "Mount Tai". */
+    title: string | null;
+    subtitle: string | null;
+  };
+}
+
+/** Built-in themes translate by id; packs use their own names. */
+export const themeLabel = (t: Translate, language: Language, theme: Theme): string => {
+  const key = `theme.${theme.id}`;
+  return isMessageKey(key) ? t(key) : theme.labels?.[language] ?? theme.label;
+};
+
+/** A CSS `url()` for an image, or `none`. */
+export const cssImage = (url: string | null) => (url ? `url(${JSON.stringify(url)})` : 'none');
+
+/** The CSS variables the stylesheet and Tailwind's `accent` colours read. */
+export const themeVariables = (theme: Theme): Record<string, string> => ({
+  ...Object.fromEntries(ACCENT_SHADES.map(shade => [`--color-accent-${shade}`, theme.accent[shade]])),
+  '--font-serif-sc': theme.fonts.body,
+  '--font-calligraphy': theme.fonts.display,
+  '--table-color': theme.table.color,
+  '--table-image': cssImage(theme.table.image),
+  '--table-shade': theme.table.shade,
+  '--table-texture': cssImage(theme.table.texture),
+});
+
+// --- Theme Packs ---
+
+export const THEME_PACK_VERSION = 1;
+
+export class ThemePackError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ThemePackError';
+  }
+}
+
+type Section = Record<string, unknown>;
+
+const isSection = (value: unknown): value is Section =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * A theme pack is a JSON manifest that starts from a built-in theme
+ * (`extends`, Feng Shui by default) and overrides any part of it. Image and
+ * font paths are relative to the manifest and must stay on its origin, so a
+ * pack works offline like the built-in art.
+ */
+export const parseThemePack = (json: string, manifestUrl: string, themes: Theme[]): Theme => {
+  let pack: Section;
+  try {
+    pack = JSON.parse(json);
+  } catch {
+    throw new ThemePackError('The manifest is not valid JSON.');
+  }
+  if (!isSection(pack) || pack.version !== THEME_PACK_VERSION) {
+    throw new ThemePackError(`Unsupported theme pack version ${isSection(pack) ? pack.version : undefined}; expected ${THEME_PACK_VERSION}.`);
+  }
+  if (typeof pack.id !== 'string' || !pack.id || typeof pack.label !== 'string') {
+    throw new ThemePackError('The theme pack needs an id and a label.');
+  }
+  const base = themes.find(theme => theme.id === (pack.extends ?? themes[0]?.id));
+  if (!base) throw new ThemePackError(`Unknown theme "${pack.extends}" to extend.`);
+  if (themes.some(theme => theme.id === pack.id)) throw new ThemePackError(`A theme called "${pack.id}" already exists.`);
+
+  const origin = new URL(manifestUrl).origin;
+  const asset = (path: unknown, field: string): string => {
+    if (typeof path !== 'string') throw new ThemePackError(`${field} must be a file path.`);
+    const url = new URL(path, manifestUrl);
+    if (url.origin !== origin) throw new ThemePackError(`${field} must be a file next to the manifest, not ${url.href}.`);
+    return url.href;
+  };
+  const text = (value: unknown, field: string): string => {
+    if (typeof value !== 'string') throw new ThemePackError(`${field} must be a string.`);
+    return value;
+  };
+  /** `defaults` with the overrides the pack gives for `name`, each one checked. */
+  const section = <T extends object>(name: string, overrides: unknown, defaults: T, images: string[] = [], optional: string[] = []): T => {
+    if (overrides === undefined) return defaults;
+    if (!isSection(overrides)) throw new ThemePackError(`${name} must be an object.`);
+    const merged: Section = { ...(defaults as Section) };
+    for (const [key, value] of Object.entries(overrides)) {
+      const field = `${name}.${key}`;
+      if (!(key in defaults)) throw new ThemePackError(`Unknown field ${field}.`);
+      if (value === null && (images.includes(key) || optional.includes(key))) merged[key] = null;
+      else merged[key] = images.includes(key) ? asset(value, field) : text(value, field);
+    }
+    return merged as T;
+  };
+  const fontFile = (file: unknown, i: number): FontFile => {
+    const field = `fonts.files[${i}]`;
+    if (!isSection(file)) throw new ThemePackError(`${field} must be an object.`);
+    return {
+      family: text(file.family, `${field}.family`),
+      src: asset(file.src, `${field}.src`),
+      weight: file.weight === undefined ? undefined : text(file.weight, `${field}.weight`),
+      style: file.style === undefined ? undefined : text(file.style, `${field}.style`),
+    };
+  };
+
+  for (const name of ['labels', 'face', 'fonts']) {
+    if (pack[name] !== undefined && !isSection(pack[name])) throw new ThemePackError(`${name} must be an object.`);
+  }
+  const labels = Object.entries((pack.labels ?? {}) as Section).map(([language, label]) => {
+    if (!isLanguage(language)) throw new ThemePackError(`Unknown language labels.${language}.`);
+    return [language, text(label, `labels.${language}`)];
+  });
+  const { suits, ...face } = (pack.face ?? {}) as Section;
+  const { files = [], ...fonts } = (pack.fonts ?? {}) as Section;
+  if (!Array.isArray(files)) throw new ThemePackError('fonts.files must be a list.');
+  const { suits: baseSuits, ...baseFace } = base.face;
+  const { files: baseFiles, ...baseFonts } = base.fonts;
+
+  return {
+    id: pack.id,
+    label: pack.label,
+    labels: Object.fromEntries(labels),
+    accent: section('accent', pack.accent, base.accent),
+    fonts: { ...section('fonts', fonts, baseFonts), files: [...baseFiles, ...files.map(fontFile)] },
+    table: section('table', pack.table, base.table, ['image', 'texture']),
+    face: { ...section('face', face, baseFace, ['texture']), suits: section('face.suits', suits, baseSuits) },
+    back: section('back', pack.back, base.back, ['image'], ['title', 'subtitle']),
+  };
+};
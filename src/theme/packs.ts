@@ -0,0 +1,44 @@
+import { parseThemePack } from './index';
+import type { Theme } from './index';
+
+/** Lists the packs to load: `{ "packs": ["lantern-festival/theme.json"] }`, paths relative to it. */
+export const THEME_PACK_INDEX = '/themes/index.json';
+
+export interface ThemePackFailure {
+  url: string;
+  error: string;
+}
+
+const fetchText = async (url: string): Promise<string> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+  return response.text();
+};
+
+/**
+ * Loads every pack the index lists, in order, so a pack can extend one listed
+ * before it. A broken pack is reported and skipped; a missing index just
+ * means there are no packs.
+ */
+export const loadThemePacks = async (builtIn: Theme[]): Promise<{ themes: Theme[]; failures: ThemePackFailure[] }> => {
+  const indexUrl = new URL(THEME_PACK_INDEX, window.location.href).href;
+  let paths: unknown;
+  try {
+    paths = JSON.parse(await fetchText(indexUrl))?.packs;
+  } catch {
+    return { themes: [], failures: [] };
+  }
+  if (!Array.isArray(paths)) return { themes: [], failures: [{ url: indexUrl, error: 'The index has no "packs" list.' }] };
+
+  const themes: Theme[] = [];
+  const failures: ThemePackFailure[] = [];
+  for (const path of paths) {
+    const url = new URL(String(path), indexUrl).href;
+    try {
+      themes.push(parseThemePack(await fetchText(url), url, [...builtIn, ...themes]));
+    } catch (error) {
+      failures.push({ url, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return { themes, failures };
+};
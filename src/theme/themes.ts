@@ -0,0 +1,64 @@
+import cardBack from '../assets/card-back.svg';
+import classicBack from '../assets/classic-back.svg';
+import mountTai from '../assets/mount-tai.svg';
+import paperFibers from '../assets/paper-fibers.svg';
+import type { Theme } from './index';
+
+/** The original look: ink-wash Mount Tai, paper faces and amber accents. */
+export const FENG_SHUI: Theme = {
+  id: 'fengShui',
+  label: 'Feng Shui',
+  accent: {
+    50: '#fffbeb', 100: '#fef3c7', 200: '#fde68a', 300: '#fcd34d', 400: '#fbbf24',
+    500: '#f59e0b', 600: '#d97706', 700: '#b45309', 800: '#92400e', 900: '#78350f',
+  },
+  fonts: { body: '"Noto Serif SC", serif', display: '"Ma Shan Zheng", cursive', files: [] },
+  table: { color: '#1c1917', image: mountTai, shade: 'rgba(0, 0, 0, 0.6)', texture: paperFibers },
+  face: {
+    color: '#fdfaf1',
+    border: '#d6d3d1',
+    texture: paperFibers,
+    suits: { hearts: '#e11d48', diamonds: '#d97706', clubs: '#047857', spades: '#075985' },
+  },
+  back: { color: '#1a1a1a', image: cardBack, title: '泰山', subtitle: 'Mount Tai' },
+};
+
+/** A green baize table and a four-colour deck, so every suit reads apart at a glance. */
+export const CLASSIC: Theme = {
+  id: 'classic',
+  label: 'Classic',
+  accent: {
+    50: '#fefce8', 100: '#fef9c3', 200: '#fef08a', 300: '#fde047', 400: '#facc15',
+    500: '#eab308', 600: '#ca8a04', 700: '#a16207', 800: '#854d0e', 900: '#713f12',
+  },
+  fonts: { body: 'Georgia, "Noto Serif SC", serif', display: 'Georgia, "Noto Serif SC", serif', files: [] },
+  table: { color: '#0b5d2a', image: null, shade: 'rgba(0, 0, 0, 0.15)', texture: paperFibers },
+  face: {
+    color: '#ffffff',
+    border: '#d4d4d4',
+    texture: null,
+    suits: { hearts: '#dc2626', diamonds: '#1d4ed8', clubs: '#15803d', spades: '#171717' },
+  },
+  back: { color: '#fef2f2', image: classicBack, title: null, subtitle: null },
+};
+
+/** Black and white with bright yellow highlights; no images or textures behind the cards. */
+export const HIGH_CONTRAST: Theme = {
+  id: 'highContrast',
+  label: 'High contrast',
+  accent: {
+    50: '#ffffff', 100: '#ffffe0', 200: '#ffff99', 300: '#ffff66', 400: '#ffff00',
+    500: '#ffd500', 600: '#806000', 700: '#664d00', 800: '#4d3900', 900: '#332600',
+  },
+  fonts: { body: 'system-ui, sans-serif', display: 'system-ui, sans-serif', files: [] },
+  table: { color: '#000000', image: null, shade: 'transparent', texture: null },
+  face: {
+    color: '#ffffff',
+    border: '#000000',
+    texture: null,
+    suits: { hearts: '#b00020', diamonds: '#0038a8', clubs: '#006400', spades: '#000000' },
+  },
+  back: { color: '#000000', image: null, title: '8', subtitle: null },
+};
+
+export const BUILTIN_THEMES: Theme[] = [FENG_SHUI, CLASSIC, HIGH_CONTRAST];
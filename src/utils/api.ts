@@ -0,0 +1,80 @@
+import type { SeatView } from '../game/bot';
+import type { Advice, GameReview } from '../game/coach';
+import type { DailyAttempt, DailyBoard } from '../game/daily';
+import type { GameSummary, PlayerStats, Profile } from '../game/history';
+import type { ApiErrorBody, ApiErrorCode } from '../game/protocol';
+import type { GameLog } from '../game/replay';
+import type { SeatConfig } from '../game/seats';
+import { isMessageKey, msg } from '../i18n';
+import type { Language, Message, Params } from '../i18n';
+
+/** `UNREACHABLE` when the server is not running; `UNKNOWN` when it failed without saying why. */
+export type ClientApiErrorCode = ApiErrorCode | 'UNREACHABLE' | 'UNKNOWN';
+
+/** A failed call to the game server, including the server not running at all. */
+export class ApiError extends Error {
+  constructor(
+    readonly code: ClientApiErrorCode,
+    message: string,
+    readonly status: number | null = null,
+    readonly params: Params = {},
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/** What to show for `error` in the current language; anything but an `ApiError` is a generic failure. */
+export const apiErrorMessage = (error: unknown): Message => {
+  if (!(error instanceof ApiError)) return msg('api.FAILED');
+  const key = `api.${error.code}`;
+  return isMessageKey(key) ? msg(key, error.params) : msg('api.UNKNOWN', { status: error.status ?? '' });
+};
+
+const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+  let res: Response;
+  try {
+    res = await fetch(`/api${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init?.headers },
+    });
+  } catch {
+    throw new ApiError('UNREACHABLE', 'The game server is not reachable. Start it with `npm run server`.');
+  }
+  const body = await res.json().catch(() => null);
+  if (!res.ok) {
+    const error: Partial<ApiErrorBody> = body ?? {};
+    throw new ApiError(error.code ?? 'UNKNOWN', error.error ?? res.statusText, res.status, error.params);
+  }
+  return body as T;
+};
+
+export const listProfiles = () => request<Profile[]>('/profiles');
+
+export const createProfile = (name: string) =>
+  request<Profile>('/profiles', { method: 'POST', body: JSON.stringify({ name }) });
+
+export const recordGame = (profileId: number, game: GameSummary) =>
+  request<{ recorded: boolean }>(`/profiles/${profileId}/games`, { method: 'POST', body: JSON.stringify(game) });
+
+export const fetchStats = (profileId: number) => request<PlayerStats>(`/profiles/${profileId}/stats`);
+
+/** The server names the file, so this is a plain link rather than a fetch. */
+export const historyCsvUrl = (profileId: number) => `/api/profiles/${profileId}/games.csv`;
+
+export const fetchDailyBoard = (date: string, profileId?: number) =>
+  request<DailyBoard>(`/daily/${date}${profileId ? `?profileId=${profileId}` : ''}`);
+
+/** Uses up the profile's one ranked attempt for `date`. */
+export const startDailyAttempt = (date: string, profileId: number) =>
+  request<DailyAttempt>(`/daily/${date}/attempts`, { method: 'POST', body: JSON.stringify({ profileId }) });
+
+/** The server replays `log` and scores it itself. */
+export const submitDailyAttempt = (date: string, profileId: number, log: GameLog) =>
+  request<DailyAttempt>(`/daily/${date}/attempts/${profileId}`, { method: 'POST', body: JSON.stringify({ log }) });
+
+export const requestAdvice = (view: SeatView, language: Language) =>
+  request<Advice>('/coach/advice', { method: 'POST', body: JSON.stringify({ view, language }) });
+
+export const requestReview = (log: GameLog, seats: SeatConfig[], language: Language) =>
+  request<GameReview>('/coach/review', { method: 'POST', body: JSON.stringify({ log, seats, language }) });
@@ -0,0 +1,23 @@
+/** Saves `content` as a file through a temporary download link. */
+export const downloadFile = (filename: string, content: string, type = 'application/json') => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/** Opens the file picker and resolves with the chosen file's text, or null if cancelled. */
+export const pickTextFile = (accept: string): Promise<string | null> =>
+  new Promise((resolve) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = accept;
+    input.onchange = () => {
+      const file = input.files?.[0];
+      if (!file) return resolve(null);
+      file.text().then(resolve, () => resolve(null));
+    };
+    input.click();
+  });
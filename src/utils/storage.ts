@@ -0,0 +1,120 @@
+import { parseSave, SaveError } from '../game/save';
+import type { SavedGame } from '../game/save';
+import { isLanguage, msg, preferredLanguage } from '../i18n';
+import type { Language, Message } from '../i18n';
+
+const SAVE_KEY = 'crazy-eights:save';
+
+/** The stored game, null if there is none, or the reason it cannot be used. */
+export const loadSavedGame = (): { save: SavedGame } | { error: Message } | null => {
+  let json: string | null;
+  try {
+    json = localStorage.getItem(SAVE_KEY);
+  } catch {
+    return null;
+  }
+  if (json === null) return null;
+  try {
+    return { save: parseSave(json) };
+  } catch (error) {
+    return { error: error instanceof SaveError ? error.reason : msg('save.unreadable') };
+  }
+};
+
+/** Best effort: a full or disabled storage just means the game is not saved. */
+export const storeSavedGame = (save: SavedGame): void => {
+  try {
+    localStorage.setItem(SAVE_KEY, JSON.stringify(save));
+  } catch {
+    // Ignored; see above.
+  }
+};
+
+export const clearSavedGame = (): void => {
+  try {
+    localStorage.removeItem(SAVE_KEY);
+  } catch {
+    // Nothing to clear.
+  }
+};
+
+const PROFILE_KEY = 'crazy-eights:profile';
+
+export const loadProfileId = (): number | null => {
+  try {
+    const id = Number(localStorage.getItem(PROFILE_KEY));
+    return Number.isInteger(id) && id > 0 ? id : null;
+  } catch {
+    return null;
+  }
+};
+
+export const storeProfileId = (id: number | null): void => {
+  try {
+    if (id === null) localStorage.removeItem(PROFILE_KEY);
+    else localStorage.setItem(PROFILE_KEY, String(id));
+  } catch {
+    // The profile just has to be picked again next time.
+  }
+};
+
+const HIGHLIGHT_KEY = 'crazy-eights:highlight';
+
+/** How the human's playable cards are marked. */
+export type HighlightMode = 'playable' | 'dim' | 'off';
+export const HIGHLIGHT_MODES: HighlightMode[] = ['playable', 'dim', 'off'];
+
+export const loadHighlightMode = (): HighlightMode => {
+  try {
+    const mode = localStorage.getItem(HIGHLIGHT_KEY) as HighlightMode;
+    return HIGHLIGHT_MODES.includes(mode) ? mode : 'playable';
+  } catch {
+    return 'playable';
+  }
+};
+
+export const storeHighlightMode = (mode: HighlightMode): void => {
+  try {
+    localStorage.setItem(HIGHLIGHT_KEY, mode);
+  } catch {
+    // Falls back to the default next time.
+  }
+};
+
+const LANGUAGE_KEY = 'crazy-eights:language';
+
+export const loadLanguage = (): Language => {
+  try {
+    const language = localStorage.getItem(LANGUAGE_KEY);
+    return isLanguage(language) ? language : preferredLanguage();
+  } catch {
+    return preferredLanguage();
+  }
+};
+
+export const storeLanguage = (language: Language): void => {
+  try {
+    localStorage.setItem(LANGUAGE_KEY, language);
+  } catch {
+    // The browser's language is used again next time.
+  }
+};
+
+const THEME_KEY = 'crazy-eights:theme';
+
+/** The chosen theme's id; it may name a pack that has not loaded yet. */
+export const loadThemeId = (): string | null => {
+  try {
+    return localStorage.getItem(THEME_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const storeThemeId = (id: string): void => {
+  try {
+    localStorage.setItem(THEME_KEY, id);
+  } catch {
+    // The default theme is used again next time.
+  }
+};
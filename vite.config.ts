@@ -1,15 +1,91 @@
 import tailwindcss from '@tailwindcss/vite';
+import {minimal2023Preset} from '@vite-pwa/assets-generator/config';
 import react from '@vitejs/plugin-react';
+import fs from 'fs';
 import path from 'path';
 import {defineConfig, loadEnv} from 'vite';
+import {VitePWA} from 'vite-plugin-pwa';
+import {en} from './src/i18n/en';
+import {zhCN} from './src/i18n/zh-CN';
+
+/** Padded icons (maskable, Apple) sit on the table's black rather than white. */
+const ICON_BACKGROUND = '#0a0a0a';
+
+const APP_NAME = "Tina's Crazy Eights · 泰山风水";
+
+/** The font stylesheets `src/main.tsx` imports. */
+const FONT_STYLESHEETS = [
+  '@fontsource/ma-shan-zheng/index.css',
+  '@fontsource/noto-serif-sc/400.css',
+  '@fontsource/noto-serif-sc/700.css',
+];
+
+/**
+ * Precache patterns for the font subsets whose `unicode-range` covers `text`.
+ * Each CJK font is split into about a hundred files, so only the ones the
+ * interface itself needs are precached; characters only players type are
+ * fetched and cached when first shown.
+ */
+const fontSubsetPatterns = (text: string): string[] => {
+  const codePoints = [...new Set(text)].map(char => char.codePointAt(0)!);
+  return FONT_STYLESHEETS.flatMap(stylesheet => {
+    const css = fs.readFileSync(path.resolve(__dirname, 'node_modules', stylesheet), 'utf8');
+    return css.split('@font-face').flatMap(block => {
+      const file = block.match(/url\(\.\/files\/([\w-]+)\.woff2\)/)?.[1];
+      const ranges = block.match(/unicode-range:([^;]+);/)?.[1].split(',') ?? [];
+      const covered = ranges.some(range => {
+        const [start, end = start] = range.trim().slice(2).split('-').map(hex => parseInt(hex, 16));
+        return codePoints.some(point => point >= start && point <= end);
+      });
+      // Built assets keep the source name followed by a hash.
+      return file && covered ? [`**/${file}-*.woff2`] : [];
+    });
+  });
+};
 
 export default defineConfig(({mode}) => {
   const env = loadEnv(mode, '.', '');
   return {
-    plugins: [react(), tailwindcss()],
-    define: {
-      'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-    },
+    plugins: [
+      react(),
+      tailwindcss(),
+      VitePWA({
+        // The update prompt asks first, so nobody is reloaded mid-hand.
+        registerType: 'prompt',
+        pwaAssets: {
+          image: 'public/favicon.svg',
+          preset: {
+            ...minimal2023Preset,
+            maskable: {...minimal2023Preset.maskable, resizeOptions: {background: ICON_BACKGROUND}},
+            apple: {...minimal2023Preset.apple, resizeOptions: {background: ICON_BACKGROUND}},
+          },
+        },
+        manifest: {
+          name: APP_NAME,
+          short_name: 'Crazy Eights',
+          description: 'A classic Crazy Eights card game; play the AI offline.',
+          theme_color: ICON_BACKGROUND,
+          background_color: ICON_BACKGROUND,
+          display: 'standalone',
+        },
+        workbox: {
+          // JSON covers the theme pack manifests in public/themes.
+          globPatterns: [
+            '**/*.{js,css,html,json,svg,png,ico}',
+            ...fontSubsetPatterns([...Object.values(en), ...Object.values(zhCN), APP_NAME].join('')),
+          ],
+          navigateFallbackDenylist: [/^\/api\//, /^\/ws/],
+          // Subsets left out above are cached as pages use them.
+          runtimeCaching: [
+            {
+              urlPattern: ({request}) => request.destination === 'font',
+              handler: 'CacheFirst',
+              options: {cacheName: 'fonts', expiration: {maxEntries: 500}},
+            },
+          ],
+        },
+      }),
+    ],
     resolve: {
       alias: {
         '@': path.resolve(__dirname, '.'),
@@ -19,6 +95,11 @@ export default defineConfig(({mode}) => {
       // HMR is disabled in AI Studio via DISABLE_HMR env var.
       // Do not modifyâfile watching is disabled to prevent flickering during agent edits.
       hmr: process.env.DISABLE_HMR !== 'true',
+      // The game server (`npm run server`) handles the API and online rooms.
+      proxy: {
+        '/api': `http://localhost:${env.SERVER_PORT || 3001}`,
+        '/ws': { target: `ws://localhost:${env.SERVER_PORT || 3001}`, ws: true },
+      },
     },
   };
 });